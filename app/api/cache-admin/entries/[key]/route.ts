@@ -0,0 +1,73 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { semanticCache } from "@/lib/semantic-cache"
+import { ENTRY_PREFIX } from "@/lib/vector-index"
+import { requireAdmin } from "@/lib/admin-guard"
+
+// Keys look like code_suggestion:{language}:{framework}:{id} and arrive URI-encoded
+async function entryKeyParam(params: Promise<{ key: string }>): Promise<string | null> {
+  const { key } = await params;
+  const decoded = decodeURIComponent(key);
+  return decoded.startsWith(ENTRY_PREFIX) ? decoded : null;
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ key: string }> }
+) {
+  const denied = await requireAdmin(request);
+  if (denied) return denied;
+
+  const key = await entryKeyParam(params);
+  if (!key) {
+    return NextResponse.json({ success: false, error: "Invalid cache entry key" }, { status: 400 });
+  }
+
+  try {
+    const entry = await semanticCache.getEntry(key);
+    if (!entry) {
+      return NextResponse.json({ success: false, error: "Cache entry not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, entry });
+  } catch (error) {
+    console.error('Error reading cache entry:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to read cache entry',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ key: string }> }
+) {
+  const denied = await requireAdmin(request);
+  if (denied) return denied;
+
+  const key = await entryKeyParam(params);
+  if (!key) {
+    return NextResponse.json({ success: false, error: "Invalid cache entry key" }, { status: 400 });
+  }
+
+  try {
+    await semanticCache.evictEntries([key]);
+    console.log(`🗑️ Deleted cache entry ${key}`);
+
+    return NextResponse.json({ success: true, key });
+  } catch (error) {
+    console.error('Error deleting cache entry:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to delete cache entry',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
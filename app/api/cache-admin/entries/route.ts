@@ -0,0 +1,92 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { semanticCache, type EntryFilter } from "@/lib/semantic-cache"
+import { requireAdmin } from "@/lib/admin-guard"
+
+const MAX_PAGE_SIZE = 100;
+
+function parseAge(value: unknown): number | undefined {
+  const age = Number(value);
+  return value !== undefined && value !== null && value !== "" && Number.isFinite(age) && age >= 0
+    ? age
+    : undefined;
+}
+
+// Same predicate fields for the query string (GET) and the JSON body (DELETE)
+function parseFilter(source: Record<string, unknown>): EntryFilter {
+  const text = (value: unknown) => (typeof value === "string" && value.trim() ? value.trim() : undefined);
+
+  return {
+    language: text(source.language),
+    framework: text(source.framework),
+    suggestionType: text(source.suggestionType),
+    minAgeMs: parseAge(source.minAgeMs),
+    maxAgeMs: parseAge(source.maxAgeMs),
+  };
+}
+
+export async function GET(request: NextRequest) {
+  const denied = await requireAdmin(request);
+  if (denied) return denied;
+
+  try {
+    const params = Object.fromEntries(request.nextUrl.searchParams);
+    const page = Math.max(1, Number(params.page) || 1);
+    const pageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, Number(params.pageSize) || 20));
+
+    const result = await semanticCache.listEntries(parseFilter(params), page, pageSize);
+    const now = Date.now();
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+      // Listings only carry previews; fetch an entry by key for the full text
+      entries: result.entries.map(({ context, suggestion, ...entry }) => ({
+        ...entry,
+        age: now - entry.timestamp,
+        contextPreview: context.substring(0, 120),
+        suggestionPreview: suggestion.substring(0, 120),
+      })),
+    });
+  } catch (error) {
+    console.error('Error listing cache entries:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to list cache entries',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const denied = await requireAdmin(request);
+  if (denied) return denied;
+
+  try {
+    const filter = parseFilter(await request.json());
+
+    // An empty predicate would wipe the cache; `npm run clear-cache` exists for that
+    if (Object.values(filter).every((value) => value === undefined)) {
+      return NextResponse.json(
+        { success: false, error: "At least one filter is required for a bulk purge" },
+        { status: 400 }
+      );
+    }
+
+    const purged = await semanticCache.purgeEntries(filter);
+
+    return NextResponse.json({ success: true, purged });
+  } catch (error) {
+    console.error('Error purging cache entries:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to purge cache entries',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
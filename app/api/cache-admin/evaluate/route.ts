@@ -0,0 +1,57 @@
+import path from "path"
+import { type NextRequest, NextResponse } from "next/server"
+import { evaluateCache } from "@/lib/cache-evaluation"
+import { cachePolicies, parsePolicyConfig } from "@/lib/cache-policy"
+import { readRequestLog, resolveRequestLog } from "@/lib/request-log"
+import { requireAdmin } from "@/lib/admin-guard"
+
+// Replay a request log against an in-memory cache with the given policy.
+// `log` names a file in the request log's directory; the log itself by default.
+// `mockEmbeddings: true` replays without the embedding model, see evaluateCache.
+export async function POST(request: NextRequest) {
+  const denied = await requireAdmin(request);
+  if (denied) return denied;
+
+  const { log: name, policy, mockEmbeddings } = await request.json().catch(() => ({}));
+
+  const log = name === undefined || typeof name === "string" ? resolveRequestLog(name) : null;
+  if (!log) {
+    return NextResponse.json(
+      { success: false, error: "log must name a file next to CACHE_REQUEST_LOG (and CACHE_REQUEST_LOG must be set)" },
+      { status: 400 }
+    );
+  }
+
+  let config;
+  try {
+    config = policy === undefined ? cachePolicies.current() : parsePolicyConfig(policy, "request");
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Invalid cache policy",
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const records = await readRequestLog(log);
+    console.log(`🧪 Replaying ${records.length} logged requests from ${log}...`);
+
+    const report = await evaluateCache(records, config, { mockEmbeddings: mockEmbeddings === true });
+
+    return NextResponse.json({ success: true, log: path.basename(log), ...report });
+  } catch (error) {
+    console.error('Error evaluating cache:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to evaluate cache',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,11 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { semanticCache } from "@/lib/semantic-cache"
+import { requireAdmin } from "@/lib/admin-guard"
+
+// Recent cache hits in this process with the score breakdown of semantic matches
+export async function GET(request: NextRequest) {
+  const denied = await requireAdmin(request);
+  if (denied) return denied;
+
+  return NextResponse.json({ success: true, hits: semanticCache.getRecentHits() });
+}
@@ -0,0 +1,36 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { semanticCache, type MigrationMode } from "@/lib/semantic-cache"
+import { requireAdmin } from "@/lib/admin-guard"
+
+const MODES: MigrationMode[] = ["plan", "reembed", "drop"];
+
+// Report cache versions, re-embed entries or drop outdated partitions
+export async function POST(request: NextRequest) {
+  const denied = await requireAdmin(request);
+  if (denied) return denied;
+
+  try {
+    const { mode = "plan" } = await request.json().catch(() => ({}));
+
+    if (!MODES.includes(mode)) {
+      return NextResponse.json(
+        { success: false, error: `mode must be one of ${MODES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const report = await semanticCache.migrate(mode);
+
+    return NextResponse.json({ success: true, ...report });
+  } catch (error) {
+    console.error('Error migrating cache:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to migrate cache',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { semanticCache } from "@/lib/semantic-cache"
+import { requireAdmin } from "@/lib/admin-guard"
+
+const MAX_NEIGHBOURS = 50;
+
+// Nearest cached entries to arbitrary text, for tracking down bad answers
+export async function POST(request: NextRequest) {
+  const denied = await requireAdmin(request);
+  if (denied) return denied;
+
+  try {
+    const { text, language, framework, k } = await request.json();
+
+    if (!text || typeof text !== "string") {
+      return NextResponse.json(
+        { success: false, error: "text is required and must be a string" },
+        { status: 400 }
+      );
+    }
+
+    if (!language || !framework) {
+      return NextResponse.json(
+        { success: false, error: "language and framework select the partition to search" },
+        { status: 400 }
+      );
+    }
+
+    const neighbours = await semanticCache.findNeighbours(
+      text,
+      { language: String(language), framework: String(framework) },
+      Math.min(MAX_NEIGHBOURS, Math.max(1, Number(k) || 10))
+    );
+
+    return NextResponse.json({ success: true, neighbours });
+  } catch (error) {
+    console.error('Error searching cache neighbours:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to search cache',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
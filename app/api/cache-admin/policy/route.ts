@@ -0,0 +1,37 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { semanticCache } from "@/lib/semantic-cache"
+import { cachePolicies, PolicyReloadError } from "@/lib/cache-policy"
+import { requireAdmin } from "@/lib/admin-guard"
+
+// Current cache policy: defaults, per language/suggestion type rules and memory budget
+export async function GET(request: NextRequest) {
+  const denied = await requireAdmin(request);
+  if (denied) return denied;
+
+  return NextResponse.json({ success: true, policy: cachePolicies.current() });
+}
+
+// Re-read the policy file (CACHE_POLICY_FILE or cache-policy.json) on every instance
+export async function POST(request: NextRequest) {
+  const denied = await requireAdmin(request);
+  if (denied) return denied;
+
+  try {
+    const policy = await semanticCache.reloadPolicies();
+
+    return NextResponse.json({ success: true, policy });
+  } catch (error) {
+    if (error instanceof PolicyReloadError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 409 });
+    }
+    console.error('Error reloading cache policy:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to reload cache policy',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 400 }
+    );
+  }
+}
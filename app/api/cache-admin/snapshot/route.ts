@@ -0,0 +1,72 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { semanticCache } from "@/lib/semantic-cache"
+import { parseSnapshot } from "@/lib/cache-snapshot"
+import { requireAdmin } from "@/lib/admin-guard"
+
+// Download entries with their embeddings, optionally limited to a language, framework or suggestion type
+export async function GET(request: NextRequest) {
+  const denied = await requireAdmin(request);
+  if (denied) return denied;
+
+  try {
+    const params = request.nextUrl.searchParams;
+    const text = (name: string) => params.get(name)?.trim() || undefined;
+
+    const snapshot = await semanticCache.exportSnapshot({
+      language: text("language"),
+      framework: text("framework"),
+      suggestionType: text("suggestionType"),
+    });
+
+    const date = new Date(snapshot.exportedAt).toISOString().slice(0, 10);
+    return NextResponse.json(snapshot, {
+      headers: { "Content-Disposition": `attachment; filename="cache-snapshot-${date}.json"` },
+    });
+  } catch (error) {
+    console.error('Error exporting cache snapshot:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to export cache snapshot',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Load a snapshot exported by GET, here or on another instance
+export async function POST(request: NextRequest) {
+  const denied = await requireAdmin(request);
+  if (denied) return denied;
+
+  let snapshot;
+  try {
+    snapshot = parseSnapshot(await request.json());
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Invalid cache snapshot",
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const report = await semanticCache.importSnapshot(snapshot);
+
+    return NextResponse.json({ success: true, ...report });
+  } catch (error) {
+    console.error('Error importing cache snapshot:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to import cache snapshot',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
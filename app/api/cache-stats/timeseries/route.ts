@@ -0,0 +1,51 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { aiPerformanceMonitor, SeriesRangeError } from "@/lib/ai-performance"
+
+const RANGES_MS: Record<string, number> = {
+  "1h": 60 * 60 * 1000,
+  "6h": 6 * 60 * 60 * 1000,
+  "24h": 24 * 60 * 60 * 1000,
+  "7d": 7 * 24 * 60 * 60 * 1000,
+};
+
+// Requests, hits, misses, errors and latency per time bucket.
+// `range` (1h, 6h, 24h, 7d) or `from`/`to` in epoch ms; `route`, `language` and `model` filter
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const range = params.get("range") || "1h";
+  const to = Number(params.get("to")) || Date.now();
+  const from = Number(params.get("from")) || to - (RANGES_MS[range] ?? 0);
+
+  if (!params.get("from") && !(range in RANGES_MS)) {
+    return NextResponse.json(
+      { success: false, error: `range must be one of ${Object.keys(RANGES_MS).join(", ")}` },
+      { status: 400 }
+    );
+  }
+  if (from >= to) {
+    return NextResponse.json({ success: false, error: "from must be before to" }, { status: 400 });
+  }
+
+  try {
+    const series = await aiPerformanceMonitor.getTimeSeries(from, to, {
+      route: params.get("route") || undefined,
+      language: params.get("language") || undefined,
+      model: params.get("model") || undefined,
+    });
+
+    return NextResponse.json({ success: true, ...series });
+  } catch (error) {
+    if (error instanceof SeriesRangeError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+    console.error('Error getting cache time series:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to get cache time series',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
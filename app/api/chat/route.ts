@@ -1,10 +1,17 @@
 import { type NextRequest, NextResponse } from "next/server"
+import { modelProvider, QUICK_GENERATION_MODEL } from "@/lib/model-providers"
+import { QueueFullError } from "@/lib/generation-queue"
+import { aiRateLimiter, queueFullRejection, requesterFor, tooManyRequests } from "@/lib/rate-limit"
+import { measureUsage, recordTokenUsage, type MeasuredUsage } from "@/lib/token-usage"
+import { currentUser } from "@/features/auth/actions"
 
 interface ChatMessage {
   role: "user" | "assistant"
   content: string
 }
 
+type RecordUsage = (usage: MeasuredUsage) => void
+
 interface EnhancePromptRequest {
   prompt: string
   context?: {
@@ -14,7 +21,7 @@ interface EnhancePromptRequest {
   }
 }
 
-async function generateAIResponse(messages: ChatMessage[]) {
+async function generateAIResponse(messages: ChatMessage[], recordUsage: RecordUsage, signal: AbortSignal) {
   const systemPrompt = `You are an expert AI coding assistant. You help developers with:
 - Code explanations and debugging
 - Best practices and architecture advice
@@ -33,45 +40,29 @@ Keep responses concise but comprehensive. Use code blocks with language specific
   const timeoutId = setTimeout(() => controller.abort(), 15000)
 
   try {
-    const response = await fetch("http://localhost:11434/api/generate", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "deepseek-coder:1.3b", // Much faster model
-        prompt,
-        stream: false,
-        options: {
-          temperature: 0.2,        // Lower for more focused responses
-          top_p: 0.9,             // Nucleus sampling
-          top_k: 40,              // Limit vocabulary
-          num_predict: 500,       // Shorter responses for speed
-          num_ctx: 2048,          // Smaller context window
-          repeat_penalty: 1.1,    // Prevent repetition
-          seed: 42,               // Consistent responses
-          stop: ["\n\n\n", "Human:", "User:"], // Stop at natural breaks
-        },
-      }),
-      signal: controller.signal,
+    const { text, usage } = await modelProvider.complete(QUICK_GENERATION_MODEL, prompt, {
+      temperature: 0.2,        // Lower for more focused responses
+      topP: 0.9,               // Nucleus sampling
+      topK: 40,                // Limit vocabulary
+      maxTokens: 500,          // Shorter responses for speed
+      contextLength: 2048,     // Smaller context window
+      repeatPenalty: 1.1,      // Prevent repetition
+      seed: 42,                // Consistent responses
+      stop: ["\n\n\n", "Human:", "User:"], // Stop at natural breaks
+      // Ends on the timeout or when the client goes away
+      signal: AbortSignal.any([controller.signal, signal]),
     })
 
     clearTimeout(timeoutId)
+    recordUsage(measureUsage(prompt, text, usage))
 
-    if (!response.ok) {
-      const errorText = await response.text()
-      console.error("Error from AI model API:", errorText)
-      throw new Error(`AI model API error: ${response.status} - ${errorText}`)
-    }
-
-    const data = await response.json()
-    if (!data.response) {
+    if (!text) {
       throw new Error("No response from AI model")
     }
-    return data.response.trim()
+    return text.trim()
   } catch (error) {
     clearTimeout(timeoutId)
-    if ((error as Error).name === "AbortError") {
+    if ((error as Error).name === "AbortError" && controller.signal.aborted) {
       throw new Error("Request timeout: AI model took too long to respond")
     }
     console.error("AI generation error:", error)
@@ -79,7 +70,7 @@ Keep responses concise but comprehensive. Use code blocks with language specific
   }
 }
 
-async function enhancePrompt(request: EnhancePromptRequest) {
+async function enhancePrompt(request: EnhancePromptRequest, recordUsage: RecordUsage) {
   const enhancementPrompt = `You are a prompt enhancement assistant. Take the user's basic prompt and enhance it to be more specific, detailed, and effective for a coding AI assistant.
 
 Original prompt: "${request.prompt}"
@@ -96,29 +87,13 @@ Enhanced prompt should:
 Return only the enhanced prompt, nothing else.`
 
   try {
-    const response = await fetch("http://localhost:11434/api/generate", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "deepseek-coder:1.3b",
-        prompt: enhancementPrompt,
-        stream: false,
-        options: {
-          temperature: 0.3,
-          max_tokens: 500,
-        },
-      }),
+    const { text, usage } = await modelProvider.complete(QUICK_GENERATION_MODEL, enhancementPrompt, {
+      temperature: 0.3,
+      maxTokens: 500,
     })
+    recordUsage(measureUsage(enhancementPrompt, text, usage))
 
-    
-    if (!response.ok) {
-      throw new Error("Failed to enhance prompt")
-    }
-
-    const data = await response.json()
-    return data.response?.trim() || request.prompt
+    return text.trim() || request.prompt
   } catch (error) {
     console.error("Prompt enhancement error:", error)
     return request.prompt // Return original if enhancement fails
@@ -129,9 +104,22 @@ export async function POST(req: NextRequest) {
   try {
     const body = await req.json()
 
+    const requester = requesterFor(await currentUser(), req)
+    const limited = await aiRateLimiter.check(requester, "chat")
+    if (limited) return tooManyRequests(limited)
+    const recordUsage = (usage: MeasuredUsage) =>
+      void recordTokenUsage({
+        requester,
+        playgroundId: typeof body.playgroundId === "string" ? body.playgroundId : null,
+        route: "chat",
+        model: QUICK_GENERATION_MODEL,
+        cached: false,
+        usage,
+      })
+
     // Handle prompt enhancement
     if (body.action === "enhance") {
-      const enhancedPrompt = await enhancePrompt(body as EnhancePromptRequest)
+      const enhancedPrompt = await enhancePrompt(body as EnhancePromptRequest, recordUsage)
       return NextResponse.json({ enhancedPrompt })
     }
 
@@ -156,7 +144,7 @@ export async function POST(req: NextRequest) {
     const recentHistory = validHistory.slice(-10)
     const messages: ChatMessage[] = [...recentHistory, { role: "user", content: message }]
 
-    const aiResponse = await generateAIResponse(messages)
+    const aiResponse = await generateAIResponse(messages, recordUsage, req.signal)
 
     if (!aiResponse) {
       throw new Error("Empty response from AI model")
@@ -167,6 +155,7 @@ export async function POST(req: NextRequest) {
       timestamp: new Date().toISOString(),
     })
   } catch (error) {
+    if (error instanceof QueueFullError) return tooManyRequests(queueFullRejection(error))
     console.error("Error in AI chat route:", error)
     const errorMessage = error instanceof Error ? error.message : "Unknown error occurred"
     return NextResponse.json(
@@ -1,17 +1,80 @@
 import { type NextRequest } from "next/server";
 import { semanticCache } from "@/lib/semantic-cache";
+import { generationFlights } from "@/lib/single-flight";
+import { CHAT_GENERATION } from "@/lib/cache-version";
+import { GENERATION_MODEL, modelProvider } from "@/lib/model-providers";
+import { logRequest } from "@/lib/request-log";
+import { aiPerformanceMonitor, type RequestOutcome } from "@/lib/ai-performance";
+import { checkChatResponse, type StreamOutcome } from "@/lib/suggestion-guardrails";
+import { createEventEncoder, eventStream, SSE_HEADERS } from "@/lib/stream-events";
+import { aiRateLimiter, queueRejection, requesterFor, tooManyRequests } from "@/lib/rate-limit";
+import { measureUsage, recordTokenUsage, streamedUsage } from "@/lib/token-usage";
+import { RETRY_WINDOW_MS } from "@/lib/streaming-error-handler";
+import { currentUser } from "@/features/auth/actions";
 
 interface ChatMessage {
   role: "user" | "assistant";
   content: string;
 }
 
+interface ChatAttachment {
+  name: string;
+  language: string;
+  type: string;
+  content: string;
+}
+
+// How long a generation keeps going after its last reader disconnects, so a
+// dropped client can resume it: the hook's whole retry schedule, plus time for
+// the failed attempts in between
+const RESUME_GRACE_MS = RETRY_WINDOW_MS + 10 * 1000;
+
+const STREAM_HEADERS = {
+  ...SSE_HEADERS,
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST",
+  "Access-Control-Allow-Headers": "Content-Type, Last-Event-ID",
+};
+
+// Reconnect to a generation after a dropped connection: replays the events
+// after `Last-Event-ID`, then follows the generation live if it is still running
+export async function GET(request: NextRequest) {
+  const generationId = request.nextUrl.searchParams.get("generation");
+  if (!generationId) {
+    return new Response(
+      JSON.stringify({ error: "generation is required" }),
+      { status: 400, headers: { "Content-Type": "application/json" } }
+    );
+  }
+
+  const lastEventId = Number(request.headers.get("last-event-id") ?? 0);
+  if (!Number.isInteger(lastEventId) || lastEventId < 0) {
+    return new Response(
+      JSON.stringify({ error: "Last-Event-ID must be a non-negative integer" }),
+      { status: 400, headers: { "Content-Type": "application/json" } }
+    );
+  }
+
+  const stream = await generationFlights.resume(generationId, lastEventId, { signal: request.signal });
+  if (!stream) {
+    return new Response(
+      JSON.stringify({ error: "Generation expired or unknown" }),
+      { status: 410, headers: { "Content-Type": "application/json" } }
+    );
+  }
+
+  console.log(`🔁 Resuming chat generation ${generationId} after event ${lastEventId}`);
+  return new Response(stream, { headers: STREAM_HEADERS });
+}
+
 export async function POST(request: NextRequest) {
   const requestStartTime = Date.now();
 
   try {
     const body = await request.json();
-    const { message, history, mode } = body;
+    const { message, history, mode, attachments } = body;
+    // Playground the chat is open in, for per-playground usage
+    const playgroundId = typeof body.playgroundId === "string" ? body.playgroundId : null;
 
     if (!message || typeof message !== "string") {
       return new Response(
@@ -20,6 +83,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const requester = requesterFor(await currentUser(), request);
+    const limited = await aiRateLimiter.check(requester, "chat");
+    if (limited) {
+      console.log(`🚦 Chat request from ${requester.id} throttled: ${limited.reason}`);
+      return tooManyRequests(limited);
+    }
+
     // Validate and prepare history
     const validHistory = Array.isArray(history)
       ? history.filter(
@@ -34,7 +104,29 @@ export async function POST(request: NextRequest) {
 
     const recentHistory = validHistory.slice(-10);
 
+    const validAttachments: ChatAttachment[] = Array.isArray(attachments)
+      ? attachments
+          .filter((file: Partial<ChatAttachment> | null): file is ChatAttachment =>
+            typeof file?.content === "string"
+          )
+          .map((file: ChatAttachment) => ({
+            name: String(file.name ?? "file"),
+            language: String(file.language ?? ""),
+            type: String(file.type ?? ""),
+            content: file.content.substring(0, 1000),
+          }))
+      : [];
+
+    let userMessage = message;
+    if (validAttachments.length > 0) {
+      userMessage += "\n\nAttached files:\n";
+      validAttachments.forEach((file) => {
+        userMessage += `\n**${file.name}** (${file.language}, ${file.type}):\n\`\`\`${file.language}\n${file.content}\n\`\`\`\n`;
+      });
+    }
+
     // Build system prompt based on mode
+    // Bump CHAT_GENERATION.promptVersion in lib/cache-version.ts when these change
     const getSystemPrompt = (mode: string) => {
       switch (mode) {
         case "review":
@@ -52,7 +144,7 @@ export async function POST(request: NextRequest) {
     const fullMessages = [
       { role: "system", content: systemPrompt },
       ...recentHistory,
-      { role: "user", content: message },
+      { role: "user", content: userMessage },
     ];
 
     const prompt = fullMessages
@@ -67,218 +159,186 @@ export async function POST(request: NextRequest) {
       language: "Chat",
       framework: mode || "chat",
       suggestionType: `chat_${mode || "general"}`,
+      ...CHAT_GENERATION,
+      // Follow-ups only match answers given for the same earlier turns and files
+      history: recentHistory,
+      attachments: validAttachments.map((file) => file.content),
     };
 
-    const cachedResponse = await semanticCache.getCachedSuggestion(cacheInput);
+    const recordMetrics = (outcome: RequestOutcome, latencyMs: number) =>
+      void aiPerformanceMonitor.recordRequest({
+        route: "chat",
+        language: cacheInput.language,
+        model: CHAT_GENERATION.model,
+        outcome,
+        latencyMs,
+      });
+
+    const cached = await semanticCache.lookupSuggestion(cacheInput);
 
-    if (cachedResponse) {
+    if (cached) {
+      const cachedResponse = cached.suggestion;
       // Return cached result as a stream for consistency
       const responseTime = Date.now() - requestStartTime;
       console.log(`⚡ CHAT CACHE HIT - Total response time: ${responseTime}ms`);
-
-      const stream = new ReadableStream({
-        start(controller) {
-          // Send the cached response immediately
-          controller.enqueue(
-            new TextEncoder().encode(
-              `data: ${JSON.stringify({
-                chunk: cachedResponse,
-                done: false,
-                cached: true,
-                responseTime,
-                model: "Cached Response",
-              })}\n\n`
-            )
-          );
-
-          controller.enqueue(
-            new TextEncoder().encode(
-              `data: ${JSON.stringify({
-                done: true,
-                cached: true,
-                responseTime,
-                model: "Cached Response",
-              })}\n\n`
-            )
-          );
-
-          controller.close();
-        },
+      void logRequest({
+        kind: "chat",
+        timestamp: Date.now(),
+        input: cacheInput,
+        output: cachedResponse,
+        source: "cache",
+        latencyMs: responseTime,
+      });
+      recordMetrics("hit", responseTime);
+      void recordTokenUsage({
+        requester,
+        playgroundId,
+        route: "chat",
+        model: CHAT_GENERATION.model,
+        cached: true,
+        usage: measureUsage(prompt, cachedResponse),
       });
 
+      // Sent as one delta so cached and generated answers read the same
+      const stream = eventStream([
+        { type: "start", model: CHAT_GENERATION.model },
+        { type: "cache-hit", cacheKey: cached.key, tier: cached.tier, score: cached.score?.score ?? null },
+        { type: "delta", text: cachedResponse },
+        { type: "done", cached: true, cacheKey: cached.key, responseTime },
+      ]);
+
       return new Response(stream, {
-        headers: {
-          "Content-Type": "text/event-stream",
-          "Cache-Control": "no-cache",
-          Connection: "keep-alive",
-          "Access-Control-Allow-Origin": "*",
-          "Access-Control-Allow-Methods": "POST",
-          "Access-Control-Allow-Headers": "Content-Type",
-        },
+        headers: STREAM_HEADERS,
       });
     }
 
     // 🤖 CACHE MISS - Generate new response
-    console.log("🤖 CHAT CACHE MISS - Generating new response with Ollama...");
+    const queueFull = queueRejection();
+    if (queueFull) return tooManyRequests(queueFull);
+
+    console.log(`🤖 CHAT CACHE MISS - Generating new response with ${modelProvider.id}...`);
 
     // Create a readable stream
     let fullResponse = ""; // Track full response for caching
 
-    const stream = new ReadableStream({
-      async start(controller) {
+    // Identical in-flight requests attach to one shared generation
+    const stream = generationFlights.stream(
+      `chat:${semanticCache.getContextHash(cacheInput)}`,
+      async (send, generationId, signal) => {
+        const encode = createEventEncoder();
         try {
-          const response = await fetch("http://localhost:11434/api/generate", {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({
-              model: "codellama:latest", 
-              prompt,
-              stream: true, // Enable streaming
-              options: {
-                temperature:
-                  mode === "fix" ? 0.1 : mode === "optimize" ? 0.2 : 0.3,
-                top_p: 0.9,
-                top_k: 40,
-                num_predict: mode === "chat" ? 800 : 600, // Longer for chat, shorter for specific tasks
-                num_ctx: 3072, // Larger context for better understanding
-                repeat_penalty: 1.1,
-                stop: ["\n\nHuman:", "\n\nUser:", "Human:", "User:"],
-              },
-            }),
+          send(encode({ type: "start", model: GENERATION_MODEL, generation: generationId }));
+
+          const chunks = modelProvider.stream(GENERATION_MODEL, prompt, {
+            temperature:
+              mode === "fix" ? 0.1 : mode === "optimize" ? 0.2 : 0.3,
+            topP: 0.9,
+            topK: 40,
+            maxTokens: mode === "chat" ? 800 : 600, // Longer for chat, shorter for specific tasks
+            contextLength: 3072, // Larger context for better understanding
+            repeatPenalty: 1.1,
+            stop: ["\n\nHuman:", "\n\nUser:", "Human:", "User:"],
+            signal,
+            onQueue: (position) => send(encode({ type: "queued", position })),
           });
 
-          if (!response.ok) {
-            throw new Error(`HTTP error! status: ${response.status}`);
-          }
+          // Truncated answers and error text are served but never cached
+          const cacheResponse = async (outcome: StreamOutcome) => {
+            const verdict = checkChatResponse(fullResponse.trim(), outcome);
+            if (!verdict.ok) {
+              console.warn(`🛡️ Not caching chat response: ${verdict.reason}`);
+              return;
+            }
+            console.log("💾 Caching new chat response...");
+            await semanticCache.cacheSuggestion(cacheInput, fullResponse.trim());
+          };
 
-          const reader = response.body?.getReader();
-          if (!reader) {
-            throw new Error("No reader available");
-          }
+          for await (const chunk of chunks) {
+            if (chunk.text) {
+              fullResponse += chunk.text; // Accumulate for caching
+
+              // Send each chunk to the client
+              send(encode({ type: "delta", text: chunk.text }));
+            }
 
-          let buffer = "";
-          let totalTokens = 0;
-
-          while (true) {
-            const { done, value } = await reader.read();
-
-            if (done) break;
-
-            buffer += new TextDecoder().decode(value);
-            const lines = buffer.split("\n");
-            buffer = lines.pop() || "";
-
-            for (const line of lines) {
-              if (line.trim()) {
-                try {
-                  const data = JSON.parse(line);
-                  if (data.response) {
-                    totalTokens += 1; // Rough token counting
-                    fullResponse += data.response; // Accumulate for caching
-
-                    // Send each chunk to the client
-                    controller.enqueue(
-                      new TextEncoder().encode(
-                        `data: ${JSON.stringify({
-                          chunk: data.response,
-                          done: data.done || false,
-                          tokens: totalTokens,
-                          model: "CodeLlama 7B",
-                          cached: false,
-                        })}\n\n`
-                      )
-                    );
-                  }
-
-                  if (data.done) {
-                    // 💾 Cache the complete response
-                    if (fullResponse.trim()) {
-                      console.log("💾 Caching new chat response...");
-                      await semanticCache.cacheSuggestion(
-                        cacheInput,
-                        fullResponse.trim()
-                      );
-                    }
-
-                    const totalResponseTime = Date.now() - requestStartTime;
-                    console.log(
-                      `🤖 OLLAMA CHAT RESPONSE - Total time: ${totalResponseTime}ms`
-                    );
-
-                    controller.enqueue(
-                      new TextEncoder().encode(
-                        `data: ${JSON.stringify({
-                          done: true,
-                          tokens: totalTokens,
-                          model: "CodeLlama 7B",
-                          cached: false,
-                          responseTime: totalResponseTime,
-                        })}\n\n`
-                      )
-                    );
-                    controller.close();
-                    return;
-                  }
-                } catch (e) {
-                  // Skip invalid JSON lines
-                  console.warn("Failed to parse Ollama response line:", line);
-                }
+            if (chunk.done) {
+              // 💾 Cache the complete response
+              if (fullResponse.trim()) {
+                const outcome: StreamOutcome = { finished: true, doneReason: chunk.finishReason };
+                await cacheResponse(outcome);
+                void logRequest({
+                  kind: "chat",
+                  timestamp: Date.now(),
+                  input: cacheInput,
+                  output: fullResponse.trim(),
+                  source: "model",
+                  outcome,
+                  latencyMs: Date.now() - requestStartTime,
+                });
               }
+
+              const totalResponseTime = Date.now() - requestStartTime;
+              console.log(
+                `🤖 MODEL CHAT RESPONSE - Total time: ${totalResponseTime}ms`
+              );
+              recordMetrics("miss", totalResponseTime);
+
+              const usage = measureUsage(prompt, fullResponse, chunk.usage);
+              send(encode({ type: "usage", tokens: usage.completionTokens, promptTokens: usage.promptTokens, estimated: usage.estimated }));
+              send(encode({ type: "done", cached: false, responseTime: totalResponseTime }));
+              return;
             }
           }
 
-          // Final completion signal with caching
+          // The model server closed the stream without finishing; the partial answer is not cached
           if (fullResponse.trim()) {
-            console.log("💾 Caching final chat response...");
-            await semanticCache.cacheSuggestion(
-              cacheInput,
-              fullResponse.trim()
-            );
+            await cacheResponse({ finished: false });
           }
+          send(encode({ type: "warning", message: "The model stopped before finishing; the answer may be incomplete" }));
 
           const totalResponseTime = Date.now() - requestStartTime;
           console.log(
-            `🤖 OLLAMA CHAT FINAL - Total time: ${totalResponseTime}ms`
+            `🤖 MODEL CHAT FINAL - Total time: ${totalResponseTime}ms`
           );
+          recordMetrics("miss", totalResponseTime);
 
-          controller.enqueue(
-            new TextEncoder().encode(
-              `data: ${JSON.stringify({
-                done: true,
-                tokens: totalTokens,
-                model: "CodeLlama 7B",
-                cached: false,
-                responseTime: totalResponseTime,
-              })}\n\n`
-            )
-          );
-          controller.close();
+          const usage = measureUsage(prompt, fullResponse);
+          send(encode({ type: "usage", tokens: usage.completionTokens, promptTokens: usage.promptTokens, estimated: usage.estimated }));
+          send(encode({ type: "done", cached: false, responseTime: totalResponseTime }));
         } catch (error: any) {
+          if (signal.aborted) {
+            // Resumes get a clean end instead of waiting for events that never come
+            console.log("🛑 Chat generation cancelled, nobody is reading it");
+            // What the model produced before it stopped is still charged
+            const usage = measureUsage(prompt, fullResponse);
+            if (fullResponse) {
+              send(encode({ type: "usage", tokens: usage.completionTokens, promptTokens: usage.promptTokens, estimated: true }));
+            }
+            send(encode({ type: "error", message: "Generation cancelled" }));
+            return;
+          }
           console.error("Streaming chat error:", error);
+          recordMetrics("error", Date.now() - requestStartTime);
 
           // Send error to client
-          controller.enqueue(
-            new TextEncoder().encode(
-              `data: ${JSON.stringify({
-                error: error.message || "Failed to generate response",
-                done: true,
-              })}\n\n`
-            )
-          );
-          controller.close();
+          send(encode({ type: "error", message: error.message || "Failed to generate response" }));
         }
       },
-    });
+      {
+        signal: request.signal,
+        abandonAfterMs: RESUME_GRACE_MS,
+        // Only the request that started the generation pays for it; joiners are recorded like cache hits
+        onSettled: (frames, joined) => {
+          const usage = streamedUsage(prompt, frames);
+          if (usage) {
+            void recordTokenUsage({ requester, playgroundId, route: "chat", model: GENERATION_MODEL, cached: joined, usage });
+          }
+        },
+      }
+    );
 
     return new Response(stream, {
-      headers: {
-        "Content-Type": "text/event-stream",
-        "Cache-Control": "no-cache",
-        Connection: "keep-alive",
-        "Access-Control-Allow-Origin": "*",
-        "Access-Control-Allow-Methods": "POST",
-        "Access-Control-Allow-Headers": "Content-Type",
-      },
+      headers: STREAM_HEADERS,
     });
   } catch (error: any) {
     console.error("Chat streaming setup error:", error);
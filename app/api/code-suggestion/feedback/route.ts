@@ -0,0 +1,65 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { semanticCache } from "@/lib/semantic-cache"
+import { ENTRY_PREFIX } from "@/lib/vector-index"
+import { aiRateLimiter, requesterFor, tooManyRequests } from "@/lib/rate-limit"
+import { currentUser } from "@/features/auth/actions"
+
+// Accept/reject events for suggestions served from the semantic cache.
+// `candidate` is the index of the alternative the user accepted, when several were shown.
+// Each requester counts once per entry, so nobody can purge an entry alone.
+export async function POST(request: NextRequest) {
+  try {
+    const requester = requesterFor(await currentUser(), request)
+    const rejection = await aiRateLimiter.checkFeedback(requester)
+    if (rejection) return tooManyRequests(rejection)
+
+    const { cacheKey, accepted, candidate } = await request.json();
+
+    if (typeof cacheKey !== "string" || !cacheKey.startsWith(ENTRY_PREFIX)) {
+      return NextResponse.json(
+        { success: false, error: "cacheKey must be a semantic cache entry key" },
+        { status: 400 }
+      );
+    }
+
+    if (typeof accepted !== "boolean") {
+      return NextResponse.json(
+        { success: false, error: "accepted must be a boolean" },
+        { status: 400 }
+      );
+    }
+
+    if (candidate !== undefined && !(Number.isInteger(candidate) && candidate >= 0)) {
+      return NextResponse.json(
+        { success: false, error: "candidate must be a non-negative integer" },
+        { status: 400 }
+      );
+    }
+
+    const result = await semanticCache.recordFeedback(cacheKey, accepted, requester.id);
+
+    if (!result) {
+      // The entry expired or was evicted since the suggestion was served
+      return NextResponse.json({ success: true, recorded: false });
+    }
+
+    if (!result.counted) {
+      return NextResponse.json({ success: true, recorded: false, duplicate: true });
+    }
+
+    const choice = candidate === undefined ? "" : ` (candidate ${candidate + 1} chosen)`;
+    console.log(`${accepted ? "👍" : "👎"} Feedback for ${cacheKey}${choice} - acceptance ${(result.acceptance * 100).toFixed(0)}%`);
+
+    return NextResponse.json({ success: true, recorded: true, ...result });
+  } catch (error) {
+    console.error('Error recording suggestion feedback:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to record feedback',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,11 @@
 import { type NextRequest, NextResponse } from "next/server"
 import { aiCache } from "@/lib/ai-cache"
+import { modelProvider, QUICK_GENERATION_MODEL } from "@/lib/model-providers"
+import { fimFormatFor, stripFimTokens, trimSuffixOverlap } from "@/lib/fim-prompts"
+import { QueueFullError } from "@/lib/generation-queue"
+import { aiRateLimiter, queueFullRejection, requesterFor, tooManyRequests } from "@/lib/rate-limit"
+import { measureUsage, recordTokenUsage, type MeasuredUsage } from "@/lib/token-usage"
+import { currentUser } from "@/features/auth/actions"
 
 interface CodeSuggestionRequest {
   fileContent: string
@@ -7,6 +13,7 @@ interface CodeSuggestionRequest {
   cursorColumn: number
   suggestionType: string
   fileName?: string
+  playgroundId?: string
 }
 
 interface CodeContext {
@@ -32,13 +39,26 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Invalid input parameters" }, { status: 400 })
     }
 
+    const requester = requesterFor(await currentUser(), request)
+    const limited = await aiRateLimiter.check(requester, "code-suggestion")
+    if (limited) return tooManyRequests(limited)
+    const recordUsage = (cached: boolean, usage: MeasuredUsage) =>
+      void recordTokenUsage({
+        requester,
+        playgroundId: typeof body.playgroundId === "string" ? body.playgroundId : null,
+        route: "code-suggestion",
+        model: QUICK_GENERATION_MODEL,
+        cached,
+        usage,
+      })
+
     // Analyze code context
     const context = analyzeCodeContext(fileContent, cursorLine, cursorColumn, fileName)
 
     // Build AI prompt
     const prompt = buildPrompt(context, suggestionType)
 
-    const suggestion = await generateSuggestion(prompt)
+    const suggestion = await generateSuggestion(prompt, codeAfterCursor(context), recordUsage, request.signal)
 
     return NextResponse.json({
       suggestion,
@@ -51,6 +71,7 @@ export async function POST(request: NextRequest) {
       },
     })
   } catch (error: any) {
+    if (error instanceof QueueFullError) return tooManyRequests(queueFullRejection(error))
     console.error("Context analysis error:", error)
     return NextResponse.json({ error: "Internal server error", message: error.message }, { status: 500 })
   }
@@ -95,10 +116,27 @@ function analyzeCodeContext(content: string, line: number, column: number, fileN
   }
 }
 
+// FIM format of the suggestion model; null means an instruction prompt with a |CURSOR| marker
+const fimFormat = fimFormatFor(QUICK_GENERATION_MODEL)
+
+/**
+ * Code after the cursor that the suggestion has to fit in front of
+ */
+function codeAfterCursor(context: CodeContext): string {
+  const lineAfterCursor = context.currentLine.substring(context.cursorPosition.column)
+  return context.afterContext ? `${lineAfterCursor}\n${context.afterContext}` : lineAfterCursor
+}
+
 /**
  * Build AI prompt based on context
  */
 function buildPrompt(context: CodeContext, suggestionType: string): string {
+  if (fimFormat) {
+    const lineBeforeCursor = context.currentLine.substring(0, context.cursorPosition.column)
+    const prefix = context.beforeContext ? `${context.beforeContext}\n${lineBeforeCursor}` : lineBeforeCursor
+    return fimFormat.build(prefix, codeAfterCursor(context))
+  }
+
   return `You are an expert code completion assistant. Generate a ${suggestionType} suggestion.
 
 Language: ${context.language}
@@ -127,43 +165,38 @@ Generate suggestion:`
 /**
  * Generate suggestion using AI service
  */
-async function generateSuggestion(prompt: string): Promise<string> {
-  const model = "deepseek-coder:1.3b";
+async function generateSuggestion(
+  prompt: string,
+  suffix: string,
+  recordUsage: (cached: boolean, usage: MeasuredUsage) => void,
+  signal: AbortSignal
+): Promise<string> {
+  const model = QUICK_GENERATION_MODEL;
   
   // Check cache first
   const cached = aiCache.get(prompt, model);
   if (cached) {
     console.log("Cache hit for code suggestion");
+    recordUsage(true, measureUsage(prompt, cached));
     return cached;
   }
 
   try {
-    const response = await fetch("http://localhost:11434/api/generate", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        model: "deepseek-coder:1.3b",
-        prompt,
-        stream: false,
-        options: {
-          temperature: 0.1,        // Lower for more focused responses
-          top_p: 0.9,             // Nucleus sampling
-          top_k: 40,              // Limit vocabulary
-          num_predict: 150,       // Shorter responses
-          num_ctx: 2048,          // Smaller context window
-          repeat_penalty: 1.1,    // Prevent repetition
-          seed: 42,               // Consistent responses
-          stop: ["\n\n", "```"],  // Stop at natural breaks
-        },
-      }),
+    const completion = await modelProvider.complete(model, prompt, {
+      temperature: 0.1,        // Lower for more focused responses
+      topP: 0.9,               // Nucleus sampling
+      topK: 40,                // Limit vocabulary
+      maxTokens: 150,          // Shorter responses
+      contextLength: 2048,     // Smaller context window
+      repeatPenalty: 1.1,      // Prevent repetition
+      seed: 42,                // Consistent responses
+      raw: fimFormat !== null, // FIM tokens must reach the model untouched
+      stop: ["\n\n", "```", ...(fimFormat?.stop ?? [])], // Stop at natural breaks
+      signal,                  // Stop generating when the client goes away
     })
 
-    if (!response.ok) {
-      throw new Error(`AI service error: ${response.statusText}`)
-    }
-
-    const data = await response.json()
-    let suggestion = data.response
+    let suggestion = completion.text
+    recordUsage(false, measureUsage(prompt, suggestion, completion.usage))
 
     // Clean up the suggestion
     if (suggestion.includes("```")) {
@@ -171,14 +204,19 @@ async function generateSuggestion(prompt: string): Promise<string> {
       suggestion = codeMatch ? codeMatch[1].trim() : suggestion
     }
 
-    // Remove cursor markers if present
-    suggestion = suggestion.replace(/\|CURSOR\|/g, "").trim()
+    // Remove cursor and FIM markers if present
+    suggestion = stripFimTokens(suggestion.replace(/\|CURSOR\|/g, "")).trim()
+
+    // Drop the tail that repeats the code after the cursor
+    suggestion = trimSuffixOverlap(suggestion, suffix)
 
     // Cache the result
     aiCache.set(prompt, model, suggestion);
 
     return suggestion
   } catch (error) {
+    // A full queue is the client's cue to back off, not a failed suggestion
+    if (error instanceof QueueFullError) throw error
     console.error("AI generation error:", error)
     return "// AI suggestion unavailable"
   }
@@ -1,5 +1,17 @@
 import { type NextRequest } from "next/server"
 import { semanticCache } from "@/lib/semantic-cache"
+import { generationFlights } from "@/lib/single-flight"
+import { CODE_GENERATION } from "@/lib/cache-version"
+import { GENERATION_MODEL, modelProvider, type TokenUsage } from "@/lib/model-providers"
+import { fimFormatFor, stripFimTokens, trimSuffixOverlap } from "@/lib/fim-prompts"
+import { logRequest } from "@/lib/request-log"
+import { aiPerformanceMonitor } from "@/lib/ai-performance"
+import { checkCompletion, type GuardrailVerdict, type StreamOutcome } from "@/lib/suggestion-guardrails"
+import { createEventEncoder, eventStream, SSE_HEADERS, type StreamedCandidate, type StreamEvent } from "@/lib/stream-events"
+import { completionSessions } from "@/lib/completion-sessions"
+import { aiRateLimiter, queueRejection, requesterFor, tooManyRequests } from "@/lib/rate-limit"
+import { measureUsage, recordTokenUsage, streamedUsage, sumUsage, type MeasuredUsage } from "@/lib/token-usage"
+import { currentUser } from "@/features/auth/actions"
 
 // Helper functions (copied from non-streaming version)
 function analyzeCodeContext(content: string, line: number, column: number, fileName?: string) {
@@ -123,7 +135,7 @@ function extractImports(code: string): string {
 }
 
 // Helper function to extract current function context
-function extractFunctionContext(beforeContext: string, cursorLine: number): string {
+function extractFunctionContext(beforeContext: string): string {
   const lines = beforeContext.split('\n');
   let functionStart = -1;
   
@@ -144,24 +156,37 @@ function extractFunctionContext(beforeContext: string, cursorLine: number): stri
   return lines.slice(-8).join('\n');
 }
 
-// Helper function to detect useState patterns
-function detectReactPatterns(beforeContext: string): boolean {
-  return beforeContext.includes('useState') || 
-         beforeContext.includes('useEffect') || 
-         beforeContext.includes('import React');
+type CodeContext = ReturnType<typeof analyzeCodeContext>
+
+// FIM format of the generation model; null means prompting with the prefix only
+const fimFormat = fimFormatFor(GENERATION_MODEL)
+
+// Code after the cursor that the completion has to fit in front of
+function codeAfterCursor(context: CodeContext): string {
+  const lineAfterCursor = context.currentLine.substring(context.cursorPosition.column);
+  return context.afterContext ? `${lineAfterCursor}\n${context.afterContext}` : lineAfterCursor;
 }
 
 // Helper function to create completion-focused prompt
-function buildPrompt(context: any, suggestionType: string): string {
-  const { beforeContext, currentLine, afterContext, cursorPosition, language, framework, isAfterComment } = context;
+// Bump CODE_GENERATION.promptVersion in lib/cache-version.ts when this changes
+function buildPrompt(context: CodeContext): string {
+  const { beforeContext, currentLine, cursorPosition, language, framework, isAfterComment } = context;
   
   // Extract relevant context
   const imports = extractImports(beforeContext);
-  const functionContext = extractFunctionContext(beforeContext, cursorPosition.line);
+  const functionContext = extractFunctionContext(beforeContext);
   
   // Get the line up to cursor
   const lineBeforeCursor = currentLine.substring(0, cursorPosition.column);
-  const lineAfterCursor = currentLine.substring(cursorPosition.column);
+  const prefix = `${imports}
+
+${functionContext}
+${lineBeforeCursor}`;
+
+  // Infilling models see both sides of the cursor, which also covers comments asking for code
+  if (fimFormat) {
+    return fimFormat.build(prefix, codeAfterCursor(context));
+  }
   
   // Special handling for comments that indicate code requests
   if (isAfterComment) {
@@ -202,47 +227,136 @@ ${lineBeforeCursor}`;
     }
   }
   
-  // For React/JavaScript useState patterns
-  if (language === 'TypeScript' || language === 'JavaScript') {
-    if (detectReactPatterns(beforeContext) && lineBeforeCursor.includes('useState')) {
-      return `${imports}
+  // Without a FIM format the model continues the prefix
+  return prefix;
+}
 
-${functionContext}
-${lineBeforeCursor}`;
+// Sampling temperature per candidate; the first, most precise one is the one that gets cached
+const CANDIDATE_TEMPERATURES = [0.05, 0.4, 0.8]
+
+const MAX_CANDIDATES = CANDIDATE_TEMPERATURES.length
+
+/**
+ * Stream one completion candidate to the client, each chunk tagged with the
+ * candidate's index, and return its text, its token usage and how the model
+ * stream ended. `generated[index]` collects the raw model output as it comes,
+ * so a cancelled candidate can still be charged for it.
+ */
+async function generateCandidate(
+  prompt: string,
+  index: number,
+  emit: (event: StreamEvent) => void,
+  generated: string[],
+  signal: AbortSignal
+): Promise<{ text: string; usage: MeasuredUsage; outcome: StreamOutcome }> {
+  const chunks = modelProvider.stream(GENERATION_MODEL, prompt, {
+    temperature: CANDIDATE_TEMPERATURES[index],
+    topP: 0.85,             // Focus on most likely tokens
+    maxTokens: 200,         // Allow longer completions for JSX
+    contextLength: 4096,    // Larger context window
+    repeatPenalty: 1.05,    // Slight penalty for repetition
+    raw: fimFormat !== null, // FIM tokens must reach the model untouched
+    signal,                 // Nobody is waiting for this completion any more
+    onQueue: (position) => emit({ type: "queued", position, candidate: index }),
+    stop: [
+      ...(fimFormat?.stop ?? []), // End of the middle
+      "\n\nexport",        // Stop at next export
+      "\n\nfunction",      // Stop at next function
+      "\n\nconst",         // Stop at next const declaration
+      "\n\nimport",        // Stop at next import
+      "```",               // Stop at code blocks
+      "//",
+      "/*",
+      "import React",
+      "import {",
+      "function ",
+      "export ",
+      "</html>",           // Stop at HTML closing
+      "Here's",            // Stop at explanations
+      "This is",           // Stop at explanations
+      "The above",         // Stop at explanations
+      "Example:",          // Stop at examples
+    ],
+  });
+
+  let text = "";
+  // Everything the model produced, including what the filters drop, for counting tokens
+  generated[index] = "";
+  let reportedUsage: TokenUsage | undefined;
+  let isFirstChunk = true;
+  let outcome: StreamOutcome = { finished: false };
+
+  for await (const chunk of chunks) {
+    if (chunk.done) {
+      outcome = { finished: true, doneReason: chunk.finishReason };
+      reportedUsage = chunk.usage;
     }
-    
-    // For JSX/component creation - detect JSX context
-    if (lineBeforeCursor.includes('return (') || 
-        lineBeforeCursor.includes('<') ||
-        beforeContext.includes('return (')) {
-      return `${imports}
+    if (chunk.text) {
+      generated[index] += chunk.text;
+      let cleanChunk = chunk.text;
+
+      // Remove FIM markers if present
+      cleanChunk = stripFimTokens(cleanChunk);
+
+      // For the first chunk, aggressively filter explanatory content
+      if (isFirstChunk) {
+        // Remove common AI explanation starters
+        cleanChunk = cleanChunk.replace(/^(Sure!?|Here'?s?|Here is|Let me|I'll|I can|This is|The completion|You can|To create|To add)/i, '');
+
+        // If the entire first chunk is explanatory, skip it
+        const explanatoryFirstChunk = /^(an example of|how you can|a simple|the way to)/i;
+        if (explanatoryFirstChunk.test(cleanChunk.trim())) {
+          continue;
+        }
 
-${functionContext}
-${lineBeforeCursor}`;
-    }
-    
-    // For general React patterns
-    if (detectReactPatterns(beforeContext)) {
-      return `${imports}
+        isFirstChunk = false;
+      }
 
-${functionContext}
-${lineBeforeCursor}`;
+      // Skip chunks that are clearly explanatory text
+      const explanatoryPatterns = [
+        /^(an? example of|how you can|this (?:is|will)|using tailwind)/i,
+        /^(to (?:create|add|make|build)|the (?:above|following))/i,
+        /^(in this|for this|with this)/i
+      ];
+
+      const isExplanatory = explanatoryPatterns.some(pattern => 
+        pattern.test(cleanChunk.trim())
+      );
+
+      // Skip explanatory chunks entirely
+      if (isExplanatory) {
+        continue;
+      }
+
+      // Send valid code chunks
+      if (cleanChunk !== '') {
+        text += cleanChunk;
+
+        emit({ type: "delta", text: cleanChunk, candidate: index });
+      }
     }
   }
-  
-  // For general code completion - use Fill-in-the-Middle approach
-  if (afterContext.trim()) {
-    return `${imports}
 
-${functionContext}
-${lineBeforeCursor}`;
-  }
-  
-  // Simple completion without suffix
-  return `${imports}
+  return { text, usage: measureUsage(prompt, generated[index], reportedUsage), outcome };
+}
 
-${functionContext}
-${lineBeforeCursor}`;
+// Final text of a candidate: duplicate imports dropped, cut where it runs into the suffix
+function finishSuggestion(text: string, suffix: string): string {
+  // Remove duplicate imports (common issue with CodeLlama)
+  const seenImports = new Set();
+  const filteredLines = text.trim().split('\n').filter(line => {
+    const trimmedLine = line.trim();
+    if (trimmedLine.startsWith('import ')) {
+      if (seenImports.has(trimmedLine)) {
+        return false; // Skip duplicate import
+      }
+      seenImports.add(trimmedLine);
+    }
+    return true;
+  });
+
+  // Mid-line and mid-block completions often run on into the code after the cursor
+  return trimSuffixOverlap(filteredLines.join('\n').trim(), suffix);
 }
 
 export async function POST(request: NextRequest) {
@@ -251,6 +365,10 @@ export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
     const { fileContent, cursorLine, cursorColumn, suggestionType, fileName } = body
+    // Playground the editor belongs to, for per-playground usage
+    const playgroundId = typeof body.playgroundId === "string" ? body.playgroundId : null
+    // How many alternatives to return, for cycling in the editor
+    const candidateCount = Math.min(Math.max(Math.floor(Number(body.candidates)) || 1, 1), MAX_CANDIDATES)
 
     // Validate input
     if (!fileContent || cursorLine < 0 || cursorColumn < 0 || !suggestionType) {
@@ -260,6 +378,19 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const requester = requesterFor(await currentUser(), request)
+    const limited = await aiRateLimiter.check(requester, "code-suggestion")
+    if (limited) {
+      console.log(`🚦 Suggestion request from ${requester.id} throttled: ${limited.reason}`)
+      return tooManyRequests(limited)
+    }
+
+    // A new request from the same editor session supersedes this one, like the client going away.
+    // Only requests that will be served do so; a rejected one leaves the running completion alone.
+    const readerSignal = typeof body.session === "string" && body.session
+      ? AbortSignal.any([request.signal, completionSessions.begin(body.session)])
+      : request.signal
+
     // Analyze code context (like non-streaming version)
     const context = analyzeCodeContext(fileContent, cursorLine, cursorColumn, fileName)
 
@@ -277,227 +408,221 @@ export async function POST(request: NextRequest) {
       cursorColumn,
       language: context.language,
       framework: context.framework,
-      suggestionType
+      suggestionType,
+      ...CODE_GENERATION
     };
 
-    const cachedSuggestion = await semanticCache.getCachedSuggestion(cacheInput);
+    const cached = await semanticCache.lookupSuggestion(cacheInput);
+    const suffix = codeAfterCursor(context);
+    // Build AI prompt (like non-streaming version); cache hits are charged what it would have cost
+    const prompt = buildPrompt(context)
+    // A semantic match may come from a spot with different code after the cursor
+    const cachedSuggestion = cached ? trimSuffixOverlap(cached.suggestion, suffix) : ""
+    if (cached && !cachedSuggestion.trim()) {
+      console.log("♻️ Cached suggestion only repeats the code after the cursor, generating instead")
+    }
+    const cachedCandidate: StreamedCandidate | null = cached && cachedSuggestion.trim()
+      ? { suggestion: cachedSuggestion, cacheKey: cached.key, cached: true }
+      : null;
     
-    if (cachedSuggestion) {
+    if (cached && cachedCandidate) {
       // Return cached result as a stream for consistency
       const responseTime = Date.now() - requestStartTime;
       console.log(`⚡ CACHE HIT - Total response time: ${responseTime}ms`);
-      
-      const stream = new ReadableStream({
-        start(controller) {
-          // Send the cached suggestion immediately
-          controller.enqueue(
-            new TextEncoder().encode(`data: ${JSON.stringify({ 
-              chunk: cachedSuggestion,
-              done: false,
-              cached: true,
-              responseTime
-            })}\n\n`)
-          );
-          
-          controller.enqueue(
-            new TextEncoder().encode(`data: ${JSON.stringify({ 
-              done: true,
-              cached: true,
-              responseTime
-            })}\n\n`)
-          );
-          
-          controller.close();
-        }
+      void logRequest({
+        kind: "completion",
+        timestamp: Date.now(),
+        input: cacheInput,
+        output: cachedCandidate.suggestion,
+        source: "cache",
+        latencyMs: responseTime,
       });
-
-      return new Response(stream, {
-        headers: {
-          'Content-Type': 'text/event-stream',
-          'Cache-Control': 'no-cache',
-          'Connection': 'keep-alive',
-        },
+      void aiPerformanceMonitor.recordRequest({
+        route: "code-suggestion",
+        language: context.language,
+        model: CODE_GENERATION.model,
+        outcome: "hit",
+        latencyMs: responseTime,
+      });
+      void recordTokenUsage({
+        requester,
+        playgroundId,
+        route: "code-suggestion",
+        model: CODE_GENERATION.model,
+        cached: true,
+        usage: measureUsage(prompt, cachedCandidate.suggestion),
       });
     }
 
-    // Build AI prompt (like non-streaming version)
-    const prompt = buildPrompt(context, suggestionType)
+    // A single candidate is answered from the cache alone
+    if (cached && cachedCandidate && candidateCount === 1) {
+      const responseTime = Date.now() - requestStartTime;
+      const stream = eventStream([
+        { type: "start", model: CODE_GENERATION.model, candidates: 1 },
+        { type: "cache-hit", cacheKey: cached.key, tier: cached.tier, score: cached.score?.score ?? null, candidate: 0 },
+        { type: "delta", text: cachedCandidate.suggestion, candidate: 0 },
+        {
+          type: "done",
+          cached: true,
+          cacheKey: cached.key,
+          suggestion: cachedCandidate.suggestion,
+          candidates: [cachedCandidate],
+          responseTime
+        },
+      ]);
 
-    // 🤖 CACHE MISS - Generate new suggestion
-    console.log("🤖 CACHE MISS - Generating new suggestion with Ollama...");
-    let fullSuggestion = "";
+      return new Response(stream, {
+        headers: SSE_HEADERS,
+      });
+    }
 
-    // Create a readable stream
-    const stream = new ReadableStream({
-      async start(controller) {
+    const queueFull = queueRejection()
+    if (queueFull) return tooManyRequests(queueFull)
+
+    // 🤖 CACHE MISS (or alternatives to a cached answer) - Generate new suggestions
+    // A cached answer takes the first candidate slot; fresh ones fill the rest
+    const freshIndexes = Array.from({ length: candidateCount }, (_, i) => i).slice(cachedCandidate ? 1 : 0);
+    console.log(`🤖 Generating ${freshIndexes.length} suggestion(s) with ${modelProvider.id}...`);
+
+    // Identical in-flight requests attach to one shared generation
+    const stream = generationFlights.stream(
+      `code:${candidateCount}:${semanticCache.getContextHash(cacheInput)}`,
+      async (send, _generationId, flightSignal) => {
+        const encode = createEventEncoder();
+        const emit = (event: StreamEvent) => send(encode(event));
+        const generated: string[] = [];
+        // Candidates that never finished are charged for what they produced
+        const partialUsage = (indexes: number[]) =>
+          sumUsage(indexes.filter((index) => generated[index]).map((index) => measureUsage(prompt, generated[index])));
         try {
-          const response = await fetch("http://localhost:11434/api/generate", {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({
-              model: "codellama:latest", // Better for code completion
-              prompt,
-              stream: true,
-              options: {
-                temperature: 0.05,      // Very low temperature for precise completions
-                top_p: 0.85,           // Focus on most likely tokens
-                num_predict: 200,      // Allow longer completions for JSX
-                num_ctx: 4096,         // Larger context window
-                repeat_penalty: 1.05,  // Slight penalty for repetition
-                stop: [
-                  "\n\nexport",        // Stop at next export
-                  "\n\nfunction",      // Stop at next function
-                  "\n\nconst",         // Stop at next const declaration
-                  "\n\nimport",        // Stop at next import
-                  "```",               // Stop at code blocks
-                  "//",
-                  "/*",
-                  "import React",
-                  "import {",
-                  "function ",
-                  "export ",
-                  "</html>",           // Stop at HTML closing
-                  "Here's",            // Stop at explanations
-                  "This is",           // Stop at explanations
-                  "The above",         // Stop at explanations
-                  "Example:",          // Stop at examples
-                ],
-              },
-            }),
-          });
-
-          if (!response.ok) {
-            throw new Error(`HTTP error! status: ${response.status}`);
+          emit({ type: "start", model: GENERATION_MODEL, candidates: candidateCount });
+          if (cachedCandidate) {
+            emit({ type: "cache-hit", cacheKey: cachedCandidate.cacheKey, tier: cached?.tier, score: cached?.score?.score ?? null, candidate: 0 });
+            emit({ type: "delta", text: cachedCandidate.suggestion, candidate: 0 });
           }
 
-          const reader = response.body?.getReader();
-          if (!reader) {
-            throw new Error("No reader available");
+          // One failing candidate does not cost the others
+          const settle = (indexes: number[]) =>
+            Promise.allSettled(indexes.map((index) => generateCandidate(prompt, index, emit, generated, flightSignal)))
+          // Alternatives only start once the first is done, so a request superseded by the
+          // next keystroke never pays for them
+          const results = await settle(freshIndexes.slice(0, 1))
+          if (!flightSignal.aborted) {
+            results.push(...(await settle(freshIndexes.slice(1))))
+          }
+          const failure = results.find((result) => result.status === "rejected");
+          if (failure && !results.some((result) => result.status === "fulfilled") && !cachedCandidate) {
+            throw failure.reason;
           }
 
-          let buffer = "";
-          let isFirstChunk = true;
-          
-          while (true) {
-            const { done, value } = await reader.read();
-            
-            if (done) break;
-            
-            buffer += new TextDecoder().decode(value);
-            const lines = buffer.split('\n');
-            buffer = lines.pop() || "";
-            
-            for (const line of lines) {
-              if (line.trim()) {
-                try {
-                  const data = JSON.parse(line);
-                  if (data.response) {
-                    let cleanChunk = data.response;
-                    
-                    // Remove FIM markers if present
-                    cleanChunk = cleanChunk.replace(/<fim_middle>/g, '');
-                    cleanChunk = cleanChunk.replace(/<fim_prefix>/g, '');
-                    cleanChunk = cleanChunk.replace(/<fim_suffix>/g, '');
-                    
-                    // For the first chunk, aggressively filter explanatory content
-                    if (isFirstChunk) {
-                      // Remove common AI explanation starters
-                      cleanChunk = cleanChunk.replace(/^(Sure!?|Here'?s?|Here is|Let me|I'll|I can|This is|The completion|You can|To create|To add)/i, '');
-                      
-                      // If the entire first chunk is explanatory, skip it
-                      const explanatoryFirstChunk = /^(an example of|how you can|a simple|the way to)/i;
-                      if (explanatoryFirstChunk.test(cleanChunk.trim())) {
-                        continue;
-                      }
-                      
-                      isFirstChunk = false;
-                    }
-                    
-                    // Skip chunks that are clearly explanatory text
-                    const explanatoryPatterns = [
-                      /^(an? example of|how you can|this (?:is|will)|using tailwind)/i,
-                      /^(to (?:create|add|make|build)|the (?:above|following))/i,
-                      /^(in this|for this|with this)/i
-                    ];
-                    
-                    const isExplanatory = explanatoryPatterns.some(pattern => 
-                      pattern.test(cleanChunk.trim())
-                    );
-                    
-                    // Skip explanatory chunks entirely
-                    if (isExplanatory) {
-                      continue;
-                    }
-                    
-                    // Send valid code chunks
-                    if (cleanChunk !== '') {
-                      fullSuggestion += cleanChunk;
-                      
-                      controller.enqueue(
-                        new TextEncoder().encode(`data: ${JSON.stringify({ 
-                          chunk: cleanChunk,
-                          done: data.done || false,
-                          cached: false
-                        })}\n\n`)
-                      );
-                    }
-                  }
-                } catch (e) {
-                  // Skip invalid JSON lines
-                }
+          const candidates: StreamedCandidate[] = cachedCandidate ? [cachedCandidate] : [];
+          for (const [i, result] of results.entries()) {
+            if (result.status === "rejected") {
+              if (flightSignal.aborted) continue;
+              console.warn(`Candidate ${freshIndexes[i]} failed:`, result.reason);
+              emit({ type: "warning", message: `Candidate ${freshIndexes[i] + 1} failed`, candidate: freshIndexes[i] });
+              continue;
+            }
+
+            const { text, outcome } = result.value;
+            if (!text.trim()) continue;
+
+            const suggestion = finishSuggestion(text, suffix);
+            let cacheKey: string | null = null;
+
+            // 💾 Only the precise first candidate is cached, and only when nothing was
+            if (freshIndexes[i] === 0) {
+              // Prose, error text and completions that break the file are served but never cached
+              const verdict: GuardrailVerdict = suggestion
+                ? checkCompletion({ ...cacheInput, fileName }, suggestion, outcome)
+                : { ok: false, reason: "only repeats the code after the cursor" };
+              if (verdict.ok) {
+                console.log("💾 Caching new suggestion...");
+                cacheKey = await semanticCache.cacheSuggestion(cacheInput, suggestion);
+              } else {
+                console.warn(`🛡️ Not caching suggestion: ${verdict.reason}`);
               }
+              void logRequest({
+                kind: "completion",
+                timestamp: Date.now(),
+                input: { ...cacheInput, fileName },
+                output: suggestion,
+                source: "model",
+                outcome,
+                latencyMs: Date.now() - requestStartTime,
+              });
+            }
+
+            // Sampling often lands on the same answer; cycling through copies is useless
+            if (suggestion && !candidates.some((candidate) => candidate.suggestion === suggestion)) {
+              candidates.push({ suggestion, cacheKey, cached: false });
             }
           }
           
-          // 💾 Cache the complete suggestion with post-processing
-          if (fullSuggestion.trim()) {
-            // Clean up the final suggestion
-            let cleanedSuggestion = fullSuggestion.trim();
-            
-            // Remove duplicate imports (common issue with CodeLlama)
-            const lines = cleanedSuggestion.split('\n');
-            const seenImports = new Set();
-            const filteredLines = lines.filter(line => {
-              const trimmedLine = line.trim();
-              if (trimmedLine.startsWith('import ')) {
-                if (seenImports.has(trimmedLine)) {
-                  return false; // Skip duplicate import
-                }
-                seenImports.add(trimmedLine);
-              }
-              return true;
+          const totalResponseTime = Date.now() - requestStartTime;
+          console.log(`🤖 MODEL RESPONSE - Total time: ${totalResponseTime}ms`);
+          if (!cachedCandidate) {
+            void aiPerformanceMonitor.recordRequest({
+              route: "code-suggestion",
+              language: context.language,
+              model: CODE_GENERATION.model,
+              outcome: "miss",
+              latencyMs: totalResponseTime,
             });
-            
-            cleanedSuggestion = filteredLines.join('\n').trim();
-            
-            console.log("💾 Caching new suggestion...");
-            await semanticCache.cacheSuggestion(cacheInput, cleanedSuggestion);
           }
           
-          const totalResponseTime = Date.now() - requestStartTime;
-          console.log(`🤖 OLLAMA RESPONSE - Total time: ${totalResponseTime}ms`);
-          
-          controller.enqueue(
-            new TextEncoder().encode(`data: ${JSON.stringify({ 
-              done: true,
-              cached: false,
-              responseTime: totalResponseTime
-            })}\n\n`)
-          );
-          controller.close();
-          
+          const usage = sumUsage([
+            ...results.flatMap((result) => (result.status === "fulfilled" ? [result.value.usage] : [])),
+            partialUsage(freshIndexes.filter((_, i) => results[i]?.status === "rejected")),
+          ]);
+          emit({ type: "usage", tokens: usage.completionTokens, promptTokens: usage.promptTokens, estimated: usage.estimated });
+          emit({
+            type: "done",
+            cached: Boolean(cachedCandidate),
+            cacheKey: candidates[0]?.cacheKey ?? null,
+            // Replace the streamed chunks, which may still overlap the suffix
+            suggestion: candidates[0]?.suggestion,
+            candidates,
+            responseTime: totalResponseTime
+          });
         } catch (error) {
-          controller.error(error);
+          if (flightSignal.aborted) {
+            console.log("🛑 Suggestion generation cancelled, nobody is waiting for it");
+            const usage = partialUsage(freshIndexes);
+            if (usage.completionTokens > 0) {
+              emit({ type: "usage", tokens: usage.completionTokens, promptTokens: usage.promptTokens, estimated: true });
+            }
+            emit({ type: "error", message: "Generation cancelled" });
+            return;
+          }
+          console.error("Streaming generation error:", error);
+          void aiPerformanceMonitor.recordRequest({
+            route: "code-suggestion",
+            language: context.language,
+            model: CODE_GENERATION.model,
+            outcome: "error",
+            latencyMs: Date.now() - requestStartTime,
+          });
+          emit({ type: "error", message: error instanceof Error ? error.message : "Failed to generate suggestion" });
         }
       },
-    });
+      {
+        // Completions are worthless once the editor has moved on, so there is no grace period.
+        // Editors share the flight: a superseded session only detaches its own reader, and the
+        // model stops (through flightSignal) once no session is reading any more.
+        signal: readerSignal,
+        // Only the request that started the generation pays for it; joiners are recorded like cache hits
+        onSettled: (frames, joined) => {
+          const usage = streamedUsage(prompt, frames)
+          if (usage) {
+            void recordTokenUsage({ requester, playgroundId, route: "code-suggestion", model: GENERATION_MODEL, cached: joined, usage })
+          }
+        },
+      }
+    );
 
     return new Response(stream, {
-      headers: {
-        'Content-Type': 'text/event-stream',
-        'Cache-Control': 'no-cache',
-        'Connection': 'keep-alive',
-      },
+      headers: SSE_HEADERS,
     });
 
   } catch (error) {
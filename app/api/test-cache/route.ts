@@ -1,5 +1,6 @@
 import { type NextRequest, NextResponse } from "next/server"
 import { semanticCache } from "@/lib/semantic-cache"
+import { CHAT_GENERATION, CODE_GENERATION } from "@/lib/cache-version"
 
 // Test data for cache performance testing
 const testCases = [
@@ -14,7 +15,8 @@ console.log(result);`,
     cursorColumn: 20,
     language: "TypeScript",
     framework: "None",
-    suggestionType: "code_completion"
+    suggestionType: "code_completion",
+    ...CODE_GENERATION
   },
   {
     fileContent: `import React, { useState } from 'react';
@@ -35,7 +37,8 @@ export default function Counter() {
     cursorColumn: 26,
     language: "TypeScript",
     framework: "React",
-    suggestionType: "code_completion"
+    suggestionType: "code_completion",
+    ...CODE_GENERATION
   },
   {
     fileContent: "How do I optimize React performance?",
@@ -43,7 +46,8 @@ export default function Counter() {
     cursorColumn: 0,
     language: "Chat",
     framework: "chat",
-    suggestionType: "chat_general"
+    suggestionType: "chat_general",
+    ...CHAT_GENERATION
   },
   {
     fileContent: "Explain async/await in JavaScript",
@@ -51,7 +55,8 @@ export default function Counter() {
     cursorColumn: 0,
     language: "Chat",
     framework: "review",
-    suggestionType: "chat_review"
+    suggestionType: "chat_review",
+    ...CHAT_GENERATION
   }
 ];
 
@@ -0,0 +1,640 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { CacheMonitor } from "@/components/cache-monitor";
+import { CacheHealth } from "@/components/cache-health";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Database, Search, Trash2, RefreshCw, Filter, Target } from "lucide-react";
+
+interface EntrySummary {
+  key: string;
+  language: string;
+  framework: string;
+  suggestionType: string;
+  hitCount: number;
+  accepts: number;
+  rejects: number;
+  timestamp: number;
+  age: number;
+  contextPreview: string;
+  suggestionPreview: string;
+}
+
+interface EntryDetail {
+  key: string;
+  context: string;
+  suggestion: string;
+  language: string;
+  framework: string;
+  suggestionType: string;
+  model: string;
+  promptVersion: string;
+  embeddingModel: string;
+  embeddingDimension: number;
+  hitCount: number;
+  accepts: number;
+  rejects: number;
+  timestamp: number;
+}
+
+interface Neighbour extends EntryDetail {
+  similarity: number;
+}
+
+interface CacheHit {
+  key: string;
+  tier: "l1" | "exact" | "semantic";
+  language: string;
+  suggestionType: string;
+  score: {
+    cosine: number;
+    lexical: number | null;
+    prefixMatch: boolean | null;
+    score: number;
+  } | null;
+  timestamp: number;
+}
+
+interface Filters {
+  language: string;
+  framework: string;
+  suggestionType: string;
+  minAgeHours: string;
+  maxAgeHours: string;
+}
+
+const PAGE_SIZE = 20;
+const HOUR_MS = 60 * 60 * 1000;
+// The server's CACHE_ADMIN_TOKEN, kept for this browser tab
+const ADMIN_TOKEN_KEY = "cache-admin-token";
+
+const emptyFilters: Filters = {
+  language: "",
+  framework: "",
+  suggestionType: "",
+  minAgeHours: "",
+  maxAgeHours: "",
+};
+
+const authHeaders = (token: string): Record<string, string> =>
+  token ? { Authorization: `Bearer ${token}` } : {};
+
+// Filter form -> API predicate (ages are sent in ms)
+function toPredicate(filters: Filters): Record<string, string | number> {
+  const predicate: Record<string, string | number> = {};
+  if (filters.language) predicate.language = filters.language;
+  if (filters.framework) predicate.framework = filters.framework;
+  if (filters.suggestionType) predicate.suggestionType = filters.suggestionType;
+  if (filters.minAgeHours) predicate.minAgeMs = Number(filters.minAgeHours) * HOUR_MS;
+  if (filters.maxAgeHours) predicate.maxAgeMs = Number(filters.maxAgeHours) * HOUR_MS;
+  return predicate;
+}
+
+const formatPercent = (value: number | null | undefined) =>
+  value === null || value === undefined ? "—" : `${(value * 100).toFixed(1)}%`;
+
+const formatAge = (ms: number) => {
+  if (ms < 60000) return `${Math.round(ms / 1000)}s`;
+  if (ms < 3600000) return `${Math.round(ms / 60000)}m`;
+  if (ms < 86400000) return `${Math.round(ms / 3600000)}h`;
+  return `${Math.round(ms / 86400000)}d`;
+};
+
+export default function CacheAdminPage() {
+  const [filters, setFilters] = useState<Filters>(emptyFilters);
+  const [appliedFilters, setAppliedFilters] = useState<Filters>(emptyFilters);
+  const [entries, setEntries] = useState<EntrySummary[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<EntryDetail | null>(null);
+
+  const [neighbourText, setNeighbourText] = useState("");
+  const [neighbourLanguage, setNeighbourLanguage] = useState("");
+  const [neighbourFramework, setNeighbourFramework] = useState("");
+  const [neighbours, setNeighbours] = useState<Neighbour[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [hits, setHits] = useState<CacheHit[]>([]);
+  const [adminToken, setAdminToken] = useState("");
+  const [tokenDraft, setTokenDraft] = useState("");
+
+  useEffect(() => {
+    const saved = sessionStorage.getItem(ADMIN_TOKEN_KEY) ?? "";
+    setAdminToken(saved);
+    setTokenDraft(saved);
+  }, []);
+
+  const saveAdminToken = () => {
+    sessionStorage.setItem(ADMIN_TOKEN_KEY, tokenDraft);
+    setAdminToken(tokenDraft);
+  };
+
+  const fetchEntries = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams({
+        page: String(page),
+        pageSize: String(PAGE_SIZE),
+      });
+      Object.entries(toPredicate(appliedFilters)).forEach(([name, value]) =>
+        params.set(name, String(value))
+      );
+
+      const response = await fetch(`/api/cache-admin/entries?${params}`, { headers: authHeaders(adminToken) });
+      const data = await response.json();
+
+      if (data.success) {
+        setEntries(data.entries);
+        setTotal(data.total);
+      } else {
+        setError(data.error || 'Failed to load entries');
+      }
+    } catch (err) {
+      setError('Network error');
+      console.error('Error loading cache entries:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [page, appliedFilters, adminToken]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  const fetchHits = useCallback(async () => {
+    try {
+      const response = await fetch('/api/cache-admin/hits', { headers: authHeaders(adminToken) });
+      const data = await response.json();
+      if (data.success) {
+        setHits(data.hits);
+      }
+    } catch (err) {
+      console.error('Error loading cache hits:', err);
+    }
+  }, [adminToken]);
+
+  useEffect(() => {
+    fetchHits();
+  }, [fetchHits]);
+
+  const applyFilters = () => {
+    setPage(1);
+    setAppliedFilters(filters);
+  };
+
+  const openEntry = async (key: string) => {
+    try {
+      const response = await fetch(`/api/cache-admin/entries/${encodeURIComponent(key)}`, {
+        headers: authHeaders(adminToken),
+      });
+      const data = await response.json();
+      if (data.success) {
+        setSelected(data.entry);
+      } else {
+        setError(data.error || 'Failed to load entry');
+      }
+    } catch (err) {
+      console.error('Error loading cache entry:', err);
+    }
+  };
+
+  const deleteEntry = async (key: string) => {
+    try {
+      const response = await fetch(`/api/cache-admin/entries/${encodeURIComponent(key)}`, {
+        method: 'DELETE',
+        headers: authHeaders(adminToken),
+      });
+      const data = await response.json();
+      if (!data.success) {
+        setError(data.error || 'Delete failed');
+        return;
+      }
+      setSelected((current) => (current?.key === key ? null : current));
+      setNeighbours((current) => current.filter((n) => n.key !== key));
+      await fetchEntries();
+    } catch (err) {
+      console.error('Error deleting cache entry:', err);
+    }
+  };
+
+  const purgeMatching = async () => {
+    const predicate = toPredicate(appliedFilters);
+    if (Object.keys(predicate).length === 0) return;
+    if (!window.confirm(`Purge all ${total} entries matching the current filters?`)) return;
+
+    try {
+      const response = await fetch('/api/cache-admin/entries', {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json', ...authHeaders(adminToken) },
+        body: JSON.stringify(predicate),
+      });
+      const data = await response.json();
+      if (!data.success) {
+        setError(data.error || 'Purge failed');
+      }
+      setPage(1);
+      await fetchEntries();
+    } catch (err) {
+      console.error('Error purging cache entries:', err);
+    }
+  };
+
+  const searchNeighbours = async () => {
+    setSearching(true);
+    try {
+      const response = await fetch('/api/cache-admin/neighbours', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...authHeaders(adminToken) },
+        body: JSON.stringify({
+          text: neighbourText,
+          language: neighbourLanguage,
+          framework: neighbourFramework,
+        }),
+      });
+      const data = await response.json();
+      if (data.success) {
+        setNeighbours(data.neighbours);
+      } else {
+        setError(data.error || 'Search failed');
+      }
+    } catch (err) {
+      console.error('Error searching cache neighbours:', err);
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  const hasPredicate = Object.keys(toPredicate(appliedFilters)).length > 0;
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      <div className="text-center space-y-2">
+        <h1 className="text-3xl font-bold">Semantic Cache Admin</h1>
+        <p className="text-zinc-400">
+          Browse, inspect and purge cached AI answers
+        </p>
+        <div className="flex justify-center gap-2">
+          <Input
+            type="password"
+            placeholder="Admin token (CACHE_ADMIN_TOKEN)"
+            value={tokenDraft}
+            onChange={(e) => setTokenDraft(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && saveAdminToken()}
+            className="max-w-xs"
+          />
+          <Button onClick={saveAdminToken} size="sm" variant="outline">
+            Use token
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <CacheHealth />
+        <CacheMonitor />
+      </div>
+
+      {/* Entries */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <Database className="h-5 w-5 text-blue-500" />
+              Cache Entries
+              <Badge variant="secondary">{total}</Badge>
+            </div>
+            <Button onClick={fetchEntries} size="sm" variant="ghost" disabled={loading}>
+              <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            </Button>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-2">
+            <Input
+              placeholder="Language"
+              value={filters.language}
+              onChange={(e) => setFilters({ ...filters, language: e.target.value })}
+            />
+            <Input
+              placeholder="Framework"
+              value={filters.framework}
+              onChange={(e) => setFilters({ ...filters, framework: e.target.value })}
+            />
+            <Input
+              placeholder="Suggestion type"
+              value={filters.suggestionType}
+              onChange={(e) => setFilters({ ...filters, suggestionType: e.target.value })}
+            />
+            <Input
+              type="number"
+              min={0}
+              placeholder="Min age (h)"
+              value={filters.minAgeHours}
+              onChange={(e) => setFilters({ ...filters, minAgeHours: e.target.value })}
+            />
+            <Input
+              type="number"
+              min={0}
+              placeholder="Max age (h)"
+              value={filters.maxAgeHours}
+              onChange={(e) => setFilters({ ...filters, maxAgeHours: e.target.value })}
+            />
+            <div className="flex gap-2">
+              <Button onClick={applyFilters} variant="outline" className="flex-1">
+                <Filter className="h-4 w-4 mr-2" />
+                Filter
+              </Button>
+              <Button
+                onClick={purgeMatching}
+                variant="destructive"
+                disabled={!hasPredicate || total === 0}
+                title={hasPredicate ? 'Purge every matching entry' : 'Apply a filter to enable bulk purge'}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+
+          {error && <p className="text-sm text-red-400">{error}</p>}
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Partition</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Suggestion</TableHead>
+                <TableHead className="text-right">Hits</TableHead>
+                <TableHead className="text-right">👍 / 👎</TableHead>
+                <TableHead className="text-right">Age</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map((entry) => (
+                <TableRow
+                  key={entry.key}
+                  className="cursor-pointer"
+                  onClick={() => openEntry(entry.key)}
+                >
+                  <TableCell className="text-xs">
+                    {entry.language === "Chat" ? "💬" : "💻"} {entry.language} / {entry.framework}
+                  </TableCell>
+                  <TableCell className="text-xs text-zinc-400">
+                    {entry.suggestionType || "—"}
+                  </TableCell>
+                  <TableCell className="max-w-md truncate font-mono text-xs text-green-400">
+                    {entry.suggestionPreview}
+                  </TableCell>
+                  <TableCell className="text-right text-xs">{entry.hitCount}</TableCell>
+                  <TableCell className="text-right text-xs">
+                    {entry.accepts} / {entry.rejects}
+                  </TableCell>
+                  <TableCell className="text-right text-xs text-zinc-400">
+                    {formatAge(entry.age)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        deleteEntry(entry.key);
+                      }}
+                    >
+                      <Trash2 className="h-4 w-4 text-red-400" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {entries.length === 0 && !loading && (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-zinc-500 py-8">
+                    No cache entries match these filters
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-zinc-400">
+              Page {page} of {pageCount}
+            </span>
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={page <= 1 || loading}
+                onClick={() => setPage(page - 1)}
+              >
+                Previous
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={page >= pageCount || loading}
+                onClick={() => setPage(page + 1)}
+              >
+                Next
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Nearest neighbours */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Search className="h-5 w-5 text-purple-500" />
+            Nearest Neighbours
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Textarea
+            value={neighbourText}
+            onChange={(e) => setNeighbourText(e.target.value)}
+            rows={4}
+            className="font-mono text-sm"
+            placeholder="Paste a context or question to find the cached entries closest to it..."
+          />
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+            <Input
+              placeholder="Language (e.g. TypeScript, Chat)"
+              value={neighbourLanguage}
+              onChange={(e) => setNeighbourLanguage(e.target.value)}
+            />
+            <Input
+              placeholder="Framework (e.g. React, chat)"
+              value={neighbourFramework}
+              onChange={(e) => setNeighbourFramework(e.target.value)}
+            />
+            <Button
+              onClick={searchNeighbours}
+              disabled={searching || !neighbourText || !neighbourLanguage || !neighbourFramework}
+            >
+              {searching ? 'Searching...' : 'Find Neighbours'}
+            </Button>
+          </div>
+
+          {neighbours.length > 0 && (
+            <div className="space-y-2">
+              {neighbours.map((neighbour) => (
+                <div
+                  key={neighbour.key}
+                  className="flex items-start justify-between gap-4 bg-zinc-900 p-3 rounded-lg"
+                >
+                  <button
+                    className="text-left flex-1 min-w-0"
+                    onClick={() => setSelected(neighbour)}
+                  >
+                    <div className="flex items-center gap-2 mb-1">
+                      <Badge variant={neighbour.similarity > 0.85 ? "default" : "secondary"}>
+                        {(neighbour.similarity * 100).toFixed(1)}%
+                      </Badge>
+                      <span className="text-xs text-zinc-400">{neighbour.suggestionType || "—"}</span>
+                    </div>
+                    <pre className="text-xs text-green-400 whitespace-pre-wrap truncate">
+                      {neighbour.suggestion.substring(0, 200)}
+                    </pre>
+                  </button>
+                  <Button size="sm" variant="ghost" onClick={() => deleteEntry(neighbour.key)}>
+                    <Trash2 className="h-4 w-4 text-red-400" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Recent hits */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <Target className="h-5 w-5 text-green-500" />
+              Recent Hits
+            </div>
+            <Button onClick={fetchHits} size="sm" variant="ghost">
+              <RefreshCw className="h-4 w-4" />
+            </Button>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {hits.length === 0 ? (
+            <div className="text-center text-zinc-400 py-4">No cache hits yet</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Tier</TableHead>
+                  <TableHead>Language / type</TableHead>
+                  <TableHead className="text-right">Cosine</TableHead>
+                  <TableHead className="text-right">Lexical</TableHead>
+                  <TableHead>Prefix</TableHead>
+                  <TableHead className="text-right">Score</TableHead>
+                  <TableHead className="text-right">When</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {hits.map((hit) => (
+                  <TableRow
+                    key={`${hit.key}-${hit.timestamp}`}
+                    className="cursor-pointer"
+                    onClick={() => openEntry(hit.key)}
+                  >
+                    <TableCell>
+                      <Badge variant={hit.tier === "semantic" ? "default" : "secondary"}>{hit.tier}</Badge>
+                    </TableCell>
+                    <TableCell className="text-xs">
+                      {hit.language} / {hit.suggestionType}
+                    </TableCell>
+                    <TableCell className="text-right">{formatPercent(hit.score?.cosine)}</TableCell>
+                    <TableCell className="text-right">{formatPercent(hit.score?.lexical)}</TableCell>
+                    <TableCell>
+                      {hit.score?.prefixMatch ? "exact" : "—"}
+                    </TableCell>
+                    <TableCell className="text-right">{formatPercent(hit.score?.score)}</TableCell>
+                    <TableCell className="text-right">{formatAge(Date.now() - hit.timestamp)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Entry detail */}
+      <Dialog open={selected !== null} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent className="max-w-3xl">
+          {selected && (
+            <>
+              <DialogHeader>
+                <DialogTitle>
+                  {selected.language} / {selected.framework}
+                </DialogTitle>
+                <DialogDescription className="font-mono text-xs break-all">
+                  {selected.key}
+                </DialogDescription>
+              </DialogHeader>
+              <div className="flex flex-wrap gap-2 text-xs">
+                <Badge variant="outline">{selected.suggestionType || "unknown type"}</Badge>
+                <Badge variant="outline">{selected.hitCount} hits</Badge>
+                <Badge variant="outline">
+                  {selected.accepts} accepted / {selected.rejects} rejected
+                </Badge>
+                <Badge variant="outline">
+                  {selected.model || "unversioned"} · {selected.promptVersion || "—"} · {selected.embeddingModel || "—"} ({selected.embeddingDimension}d)
+                </Badge>
+                <Badge variant="outline">last used {formatAge(Date.now() - selected.timestamp)} ago</Badge>
+              </div>
+              <div className="space-y-3">
+                <div>
+                  <div className="text-sm font-medium mb-1">Context</div>
+                  <pre className="bg-zinc-900 p-3 rounded-lg text-xs whitespace-pre-wrap max-h-48 overflow-y-auto">
+                    {selected.context}
+                  </pre>
+                </div>
+                <div>
+                  <div className="text-sm font-medium mb-1">Suggestion</div>
+                  <pre className="bg-zinc-900 p-3 rounded-lg text-xs text-green-400 whitespace-pre-wrap max-h-48 overflow-y-auto">
+                    {selected.suggestion}
+                  </pre>
+                </div>
+              </div>
+              <div className="flex justify-end">
+                <Button variant="destructive" onClick={() => deleteEntry(selected.key)}>
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Delete Entry
+                </Button>
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
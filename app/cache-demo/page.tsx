@@ -3,11 +3,13 @@
 import { useState } from "react";
 import { CacheMonitor } from "@/components/cache-monitor";
 import { CacheHealth } from "@/components/cache-health";
+import { CacheTimeSeries } from "@/components/cache-timeseries";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
-import { Zap, Clock, Database } from "lucide-react";
+import { Zap, Clock, Database, Activity } from "lucide-react";
+import { readEvents } from "@/lib/stream-events";
 
 export default function CacheDemoPage() {
   const [testCode, setTestCode] = useState(`function calculateSum(a: number, b: number): number {
@@ -53,29 +55,18 @@ console.log(result);`);
 
       let fullSuggestion = "";
       
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-        
-        const chunk = new TextDecoder().decode(value);
-        const lines = chunk.split('\n');
-        
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            try {
-              const data = JSON.parse(line.slice(6));
-              if (data.chunk) {
-                fullSuggestion += data.chunk;
-                setSuggestion(fullSuggestion);
-              }
-              if (data.done) {
-                setResponseTime(data.responseTime || Date.now() - startTime);
-                setCached(data.cached || false);
-              }
-            } catch (e) {
-              // Skip invalid JSON
-            }
-          }
+      for await (const { event } of readEvents(reader)) {
+        if (event.type === 'delta') {
+          fullSuggestion += event.text;
+          setSuggestion(fullSuggestion);
+        }
+        if (event.type === 'error') {
+          throw new Error(event.message);
+        }
+        if (event.type === 'done') {
+          if (event.suggestion !== undefined) setSuggestion(event.suggestion);
+          setResponseTime(event.responseTime || Date.now() - startTime);
+          setCached(event.cached);
         }
       }
     } catch (error) {
@@ -110,29 +101,17 @@ console.log(result);`);
 
       let fullResponse = "";
       
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-        
-        const chunk = new TextDecoder().decode(value);
-        const lines = chunk.split('\n');
-        
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            try {
-              const data = JSON.parse(line.slice(6));
-              if (data.chunk) {
-                fullResponse += data.chunk;
-                setChatResponse(fullResponse);
-              }
-              if (data.done) {
-                setChatResponseTime(data.responseTime || Date.now() - startTime);
-                setChatCached(data.cached || false);
-              }
-            } catch (e) {
-              // Skip invalid JSON
-            }
-          }
+      for await (const { event } of readEvents(reader)) {
+        if (event.type === 'delta') {
+          fullResponse += event.text;
+          setChatResponse(fullResponse);
+        }
+        if (event.type === 'error') {
+          throw new Error(event.message);
+        }
+        if (event.type === 'done') {
+          setChatResponseTime(event.responseTime || Date.now() - startTime);
+          setChatCached(event.cached);
         }
       }
     } catch (error) {
@@ -205,6 +184,19 @@ console.log(result);`);
         </Card>
       </div>
 
+      {/* Traffic over time */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Activity className="h-5 w-5 text-green-500" />
+            Cache Traffic
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <CacheTimeSeries />
+        </CardContent>
+      </Card>
+
       {/* Testing Areas */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Chat Testing */}
@@ -0,0 +1,106 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { UsageChart } from "@/features/usage/components/usage-chart";
+import { getTokenUsageForUser } from "@/features/usage/actions";
+
+const DAYS = 30;
+
+const formatTokens = (tokens: number) => tokens.toLocaleString("en-US");
+
+const UsagePage = async () => {
+  const usage = await getTokenUsageForUser(DAYS);
+  const cachedRequests = usage.days.reduce((total, day) => total + day.cachedRequests, 0);
+  const requests = usage.days.reduce((total, day) => total + day.requests, 0);
+
+  return (
+    <div className="flex flex-col gap-6 min-h-screen mx-auto max-w-7xl px-4 py-10">
+      <div>
+        <h1 className="text-2xl font-semibold">AI usage</h1>
+        <p className="text-sm text-muted-foreground">Model tokens over the last {DAYS} days, in UTC days</p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardHeader>
+            <CardDescription>Tokens used</CardDescription>
+            <CardTitle className="text-2xl">{formatTokens(usage.usedTokens)}</CardTitle>
+          </CardHeader>
+          <CardContent className="text-xs text-muted-foreground">
+            Prompt and completion tokens the model processed
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardDescription>Saved by the cache</CardDescription>
+            <CardTitle className="text-2xl">{formatTokens(usage.savedTokens)}</CardTitle>
+          </CardHeader>
+          <CardContent className="text-xs text-muted-foreground">
+            {formatTokens(cachedRequests)} of {formatTokens(requests)} answers came from the cache
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardDescription>Today</CardDescription>
+            <CardTitle className="text-2xl">
+              {formatTokens(usage.usedToday)}
+              {usage.dailyQuota !== null && (
+                <span className="text-sm font-normal text-muted-foreground"> / {formatTokens(usage.dailyQuota)}</span>
+              )}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="text-xs text-muted-foreground">
+            {usage.dailyQuota === null ? "No daily quota" : "Daily quota resets at midnight UTC"}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Per day</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <UsageChart days={usage.days} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Per playground</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {usage.playgrounds.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No AI requests yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Playground</TableHead>
+                  <TableHead className="text-right">Tokens used</TableHead>
+                  <TableHead className="text-right">Saved by cache</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {usage.playgrounds.map((playground) => (
+                  <TableRow key={playground.playgroundId ?? "none"}>
+                    <TableCell>{playground.title}</TableCell>
+                    <TableCell className="text-right">{formatTokens(playground.usedTokens)}</TableCell>
+                    <TableCell className="text-right">{formatTokens(playground.savedTokens)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default UsagePage;
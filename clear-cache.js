@@ -13,8 +13,11 @@ async function clearCache() {
     
     await client.connect();
     
-    // Get all cache keys
-    const keys = await client.keys('code_suggestion:*');
+    // Get all cache keys, including the vector index bookkeeping sets
+    const keys = [
+      ...(await client.keys('code_suggestion:*')),
+      ...(await client.keys('code_suggestion_idx:*')),
+    ];
     console.log(`Found ${keys.length} cache entries`);
     
     if (keys.length > 0) {
@@ -25,6 +28,12 @@ async function clearCache() {
       console.log('✅ Cache was already empty');
     }
     
+    // Tell running app instances to drop their in-process L1 caches too
+    await client.publish(
+      'code_suggestion:invalidate',
+      JSON.stringify({ type: 'clear', origin: 'clear-cache' })
+    );
+    
     await client.quit();
     console.log('🎉 Cache cleared successfully!');
     
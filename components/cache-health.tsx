@@ -28,7 +28,9 @@ export function CacheHealth() {
       const statsData = await statsResponse.json();
       
       const newHealth: HealthStatus = {
-        redis: statsData.success ? 'connected' : 'error',
+        redis: !statsData.success
+          ? 'error'
+          : statsData.stats.backend === 'redis' ? 'connected' : 'disconnected',
         embedding: 'loaded', // Assume loaded if we got this far
         cache: statsData.success && statsData.stats.totalEntries >= 0 ? 'active' : 'inactive'
       };
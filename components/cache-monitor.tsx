@@ -4,6 +4,7 @@ import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { CacheTimeSeries } from "@/components/cache-timeseries";
 import { 
   Activity, 
   Database, 
@@ -18,6 +19,8 @@ interface CacheStats {
   entriesByLanguage: Record<string, number>;
   oldestEntryAge: number;
   newestEntryAge: number;
+  backend: 'redis' | 'memory';
+  tiers: Record<'l1' | 'l2', { hits: number; misses: number; size?: number }>;
 }
 
 interface TestResult {
@@ -122,7 +125,12 @@ export function CacheMonitor() {
         <CardTitle className="flex items-center justify-between">
           <div className="flex items-center gap-2">
             <Database className="h-5 w-5 text-blue-500" />
-            Redis Cache
+            {stats?.backend === 'memory' ? 'In-Memory Cache' : 'Redis Cache'}
+            {stats?.backend === 'memory' && (
+              <Badge variant="outline" className="text-xs">
+                Redis unavailable
+              </Badge>
+            )}
           </div>
           <Button 
             onClick={fetchStats} 
@@ -182,6 +190,40 @@ export function CacheMonitor() {
               </div>
             </div>
 
+            {/* Per-tier hit rates */}
+            <div>
+              <div className="flex items-center gap-2 mb-2">
+                <Zap className="h-4 w-4 text-blue-500" />
+                <span className="text-sm font-medium">Cache Tiers</span>
+              </div>
+              <div className="space-y-1">
+                {(['l1', 'l2'] as const).map((tier) => {
+                  const { hits, misses } = stats.tiers[tier];
+                  const total = hits + misses;
+                  return (
+                    <div key={tier} className="flex items-center justify-between text-xs">
+                      <span className="text-zinc-400">
+                        {tier === 'l1' ? 'L1 (in-process)' : 'L2 (semantic)'}
+                      </span>
+                      <Badge variant="outline" className="text-xs">
+                        {hits}/{total} hits
+                        {total > 0 && ` · ${((hits / total) * 100).toFixed(0)}%`}
+                      </Badge>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+
+            {/* Hit rate over the last hour, from the persisted per-minute buckets */}
+            <div>
+              <div className="flex items-center gap-2 mb-2">
+                <Activity className="h-4 w-4 text-blue-500" />
+                <span className="text-sm font-medium">Hit Rate (last hour)</span>
+              </div>
+              <CacheTimeSeries compact />
+            </div>
+
             {/* Performance Test */}
             <div className="pt-2 border-t border-zinc-800">
               <div className="flex items-center justify-between mb-2">
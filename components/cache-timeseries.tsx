@@ -0,0 +1,233 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Button } from "@/components/ui/button";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { RefreshCw } from "lucide-react";
+
+interface SeriesPoint {
+  timestamp: number;
+  requests: number;
+  hits: number;
+  misses: number;
+  errors: number;
+  hitRate: number | null;
+  avgLatencyMs: number | null;
+  p50LatencyMs: number | null;
+  p95LatencyMs: number | null;
+}
+
+interface TimeSeries {
+  stepMs: number;
+  points: SeriesPoint[];
+  routes: string[];
+  languages: string[];
+  source: 'redis' | 'memory';
+}
+
+const RANGES = ['1h', '6h', '24h', '7d'] as const;
+type Range = (typeof RANGES)[number];
+
+const ALL = 'all';
+
+const requestsConfig = {
+  hits: { label: "Hits", color: "var(--chart-2)" },
+  misses: { label: "Misses", color: "var(--chart-1)" },
+  errors: { label: "Errors", color: "var(--chart-5)" },
+} satisfies ChartConfig;
+
+const latencyConfig = {
+  p50LatencyMs: { label: "p50", color: "var(--chart-2)" },
+  p95LatencyMs: { label: "p95", color: "var(--chart-4)" },
+} satisfies ChartConfig;
+
+const hitRateConfig = {
+  hitRate: { label: "Hit rate", color: "var(--chart-2)" },
+} satisfies ChartConfig;
+
+const formatTime = (range: Range) => (timestamp: number) =>
+  range === '7d'
+    ? new Date(timestamp).toLocaleDateString([], { weekday: 'short', hour: '2-digit' })
+    : new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+/**
+ * Request volume, hit rate and latency over time from /api/cache-stats/timeseries.
+ * `compact` renders only the hit rate for the hour, for small cards.
+ */
+export function CacheTimeSeries({ compact = false }: { compact?: boolean }) {
+  const [range, setRange] = useState<Range>('1h');
+  const [route, setRoute] = useState(ALL);
+  const [language, setLanguage] = useState(ALL);
+  const [series, setSeries] = useState<TimeSeries | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSeries = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const query = new URLSearchParams({ range });
+      if (route !== ALL) query.set('route', route);
+      if (language !== ALL) query.set('language', language);
+
+      const response = await fetch(`/api/cache-stats/timeseries?${query}`);
+      const data = await response.json();
+
+      if (data.success) {
+        setSeries(data);
+      } else {
+        setError(data.error || 'Failed to fetch time series');
+      }
+    } catch (err) {
+      setError('Network error');
+      console.error('Error fetching cache time series:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [range, route, language]);
+
+  useEffect(() => {
+    fetchSeries();
+    // Buckets are per minute, so refreshing faster shows nothing new
+    const interval = setInterval(fetchSeries, 60000);
+    return () => clearInterval(interval);
+  }, [fetchSeries]);
+
+  if (error) {
+    return <p className="text-xs text-red-400">{error}</p>;
+  }
+
+  if (!series) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <RefreshCw className="h-6 w-6 animate-spin text-zinc-400" />
+      </div>
+    );
+  }
+
+  const tickFormatter = formatTime(range);
+  const hitRates = series.points.map((point) => ({
+    timestamp: point.timestamp,
+    hitRate: point.hitRate === null ? null : Math.round(point.hitRate * 100),
+  }));
+
+  if (compact) {
+    return (
+      <ChartContainer config={hitRateConfig} className="aspect-auto h-24 w-full">
+        <AreaChart data={hitRates} margin={{ left: 0, right: 0, top: 4, bottom: 0 }}>
+          <XAxis dataKey="timestamp" hide />
+          <YAxis domain={[0, 100]} hide />
+          <ChartTooltip
+            content={<ChartTooltipContent labelFormatter={(_, [item]) => tickFormatter(item?.payload.timestamp)} />}
+          />
+          <Area
+            dataKey="hitRate"
+            type="monotone"
+            stroke="var(--color-hitRate)"
+            fill="var(--color-hitRate)"
+            fillOpacity={0.2}
+            connectNulls
+          />
+        </AreaChart>
+      </ChartContainer>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        {RANGES.map((option) => (
+          <Button
+            key={option}
+            size="sm"
+            variant={option === range ? "default" : "outline"}
+            onClick={() => setRange(option)}
+          >
+            {option}
+          </Button>
+        ))}
+        <Select value={route} onValueChange={setRoute}>
+          <SelectTrigger size="sm" className="w-40">
+            <SelectValue placeholder="Route" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All routes</SelectItem>
+            {series.routes.map((name) => (
+              <SelectItem key={name} value={name}>{name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={language} onValueChange={setLanguage}>
+          <SelectTrigger size="sm" className="w-40">
+            <SelectValue placeholder="Language" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All languages</SelectItem>
+            {series.languages.map((name) => (
+              <SelectItem key={name} value={name}>{name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button onClick={fetchSeries} size="sm" variant="ghost" disabled={loading}>
+          <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+        </Button>
+        {series.source === 'memory' && (
+          <span className="text-xs text-zinc-500">Redis unavailable, this instance only</span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div>
+          <div className="text-sm font-medium mb-2">Requests</div>
+          <ChartContainer config={requestsConfig} className="aspect-auto h-56 w-full">
+            <BarChart data={series.points}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="timestamp" tickFormatter={tickFormatter} minTickGap={32} />
+              <YAxis allowDecimals={false} width={32} />
+              <ChartTooltip
+                content={<ChartTooltipContent labelFormatter={(_, [item]) => tickFormatter(item?.payload.timestamp)} />}
+              />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Bar dataKey="hits" stackId="requests" fill="var(--color-hits)" />
+              <Bar dataKey="misses" stackId="requests" fill="var(--color-misses)" />
+              <Bar dataKey="errors" stackId="requests" fill="var(--color-errors)" />
+            </BarChart>
+          </ChartContainer>
+        </div>
+
+        <div>
+          <div className="text-sm font-medium mb-2">Latency (ms)</div>
+          <ChartContainer config={latencyConfig} className="aspect-auto h-56 w-full">
+            <LineChart data={series.points}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="timestamp" tickFormatter={tickFormatter} minTickGap={32} />
+              <YAxis width={48} />
+              <ChartTooltip
+                content={<ChartTooltipContent labelFormatter={(_, [item]) => tickFormatter(item?.payload.timestamp)} />}
+              />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Line dataKey="p50LatencyMs" type="monotone" stroke="var(--color-p50LatencyMs)" dot={false} connectNulls />
+              <Line dataKey="p95LatencyMs" type="monotone" stroke="var(--color-p95LatencyMs)" dot={false} connectNulls />
+            </LineChart>
+          </ChartContainer>
+        </div>
+      </div>
+    </div>
+  );
+}
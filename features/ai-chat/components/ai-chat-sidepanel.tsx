@@ -30,6 +30,7 @@ import {
   Download,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { throttledError } from "@/lib/streaming-error-handler";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
 import remarkMath from "remark-math";
@@ -794,11 +795,14 @@ export const AIChatSidePanel: React.FC<AIChatSidePanelProps> = ({
           },
         ]);
       } else {
+        // A throttled request says why and when to try again
+        const throttled = response.status === 429 ? await throttledError(response) : null;
         setMessages((prev) => [
           ...prev,
           {
             role: "assistant",
             content:
+              throttled?.message ??
               "Sorry, I encountered an error while processing your request. Please try again.",
             timestamp: new Date(),
             id: Date.now().toString(),
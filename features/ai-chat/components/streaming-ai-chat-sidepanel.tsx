@@ -783,7 +783,9 @@ export const StreamingAIChatSidePanel: React.FC<StreamingAIChatSidePanelProps> =
                           <div className="flex items-center gap-1">
                             <MessageSquare className="h-3 w-3 text-zinc-400" />
                             <span className="text-xs font-medium text-zinc-400">
-                              {msg.isStreaming ? "Streaming..." : "Response"}
+                              {msg.queuePosition
+                                ? `Queued: #${msg.queuePosition} in line`
+                                : msg.isStreaming ? "Streaming..." : "Response"}
                             </span>
                           </div>
                           <div className="flex items-center gap-2 text-xs text-zinc-500">
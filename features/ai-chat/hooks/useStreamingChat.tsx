@@ -1,4 +1,13 @@
 import { useState, useRef, useCallback } from 'react';
+import { useParams } from 'next/navigation';
+import { readEvents } from '@/lib/stream-events';
+import {
+  StreamingError,
+  StreamingErrorCodes,
+  streamingErrorHandler,
+  throttledError,
+  ThrottledError,
+} from '@/lib/streaming-error-handler';
 
 interface ChatMessage {
   role: "user" | "assistant";
@@ -11,6 +20,8 @@ interface ChatMessage {
   tokens?: number;
   model?: string;
   isStreaming?: boolean;
+  // Place in the server's model queue before the answer starts
+  queuePosition?: number;
 }
 
 interface StreamingChatState {
@@ -33,6 +44,8 @@ interface UseStreamingChatReturn extends StreamingChatState {
 }
 
 export const useStreamingChat = (): UseStreamingChatReturn => {
+  // Token usage is attributed to the open playground
+  const { id: playgroundId } = useParams<{ id?: string }>();
   const [state, setState] = useState<StreamingChatState>({
     messages: [],
     isLoading: false,
@@ -116,35 +129,138 @@ export const useStreamingChat = (): UseStreamingChatReturn => {
       currentStreamingMessageId: assistantMessageId,
     }));
 
-    try {
-      // Create new abort controller
-      abortControllerRef.current = new AbortController();
-
-      // Prepare context
-      let contextualMessage = message;
-      if (options.attachments && options.attachments.length > 0) {
-        contextualMessage += "\n\nAttached files:\n";
-        options.attachments.forEach((file) => {
-          contextualMessage += `\n**${file.name}** (${file.language}, ${file.type}):\n\`\`\`${file.language}\n${file.content.substring(0, 1000)}\n\`\`\`\n`;
-        });
+    // Create new abort controller
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    let accumulatedContent = "";
+    let model = "AI Assistant";
+    // Where to pick the answer up if the connection drops
+    let generationId: string | null = null;
+    let lastEventId = 0;
+    let finished = false;
+
+    const updateAssistantMessage = (update: Partial<ChatMessage>) => {
+      setState((prev) => ({
+        ...prev,
+        messages: prev.messages.map(msg => 
+          msg.id === assistantMessageId 
+            ? { ...msg, ...update }
+            : msg
+        )
+      }));
+    };
+
+    const finishStream = () => {
+      finished = true;
+      setState((prev) => ({
+        ...prev,
+        isStreaming: false,
+        currentStreamingMessageId: null,
+        messages: prev.messages.map(msg => 
+          msg.id === assistantMessageId 
+            ? { ...msg, isStreaming: false }
+            : msg
+        )
+      }));
+    };
+
+    const consumeStream = async (body: ReadableStream<Uint8Array>) => {
+      const reader = body.getReader();
+      readerRef.current = reader;
+
+      for await (const { id, event } of readEvents(reader)) {
+        lastEventId = id || lastEventId;
+
+        switch (event.type) {
+          case "start":
+            model = event.model;
+            generationId = event.generation ?? null;
+            break;
+
+          case "queued":
+            updateAssistantMessage({ queuePosition: event.position });
+            break;
+
+          case "cache-hit":
+            model = "Cached Response";
+            break;
+
+          case "delta":
+            accumulatedContent += event.text;
+            // Update message content in real-time
+            updateAssistantMessage({ content: accumulatedContent, model, queuePosition: undefined });
+            break;
+
+          case "usage":
+            updateAssistantMessage({ tokens: event.tokens });
+            break;
+
+          case "warning":
+            console.warn("Chat stream warning:", event.message);
+            break;
+
+          case "error":
+            // The model failed; resuming would replay the same error
+            throw new StreamingError(event.message, StreamingErrorCodes.MODEL_ERROR, false);
+
+          case "done":
+            console.log("Chat stream marked as done");
+            finishStream();
+            return;
+        }
       }
 
+      throw new StreamingError("Chat stream ended before the answer was complete", StreamingErrorCodes.NETWORK_ERROR);
+    };
+
+    // Pick the same generation up after the last event received instead of asking again
+    const resumeStream = async () => {
+      const response = await fetch(`/api/chat/stream?generation=${encodeURIComponent(generationId ?? "")}`, {
+        headers: { "Last-Event-ID": String(lastEventId) },
+        signal: controller.signal,
+      });
+
+      if (response.status === 410) {
+        throw new StreamingError("The interrupted answer is no longer available", StreamingErrorCodes.SERVER_ERROR, false);
+      }
+      if (!response.ok || !response.body) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      setState((prev) => ({ ...prev, error: null }));
+      await consumeStream(response.body);
+    };
+
+    try {
       const response = await fetch("/api/chat/stream", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
         },
         body: JSON.stringify({
-          message: contextualMessage,
+          message,
+          // Sent separately so the server can key its cache on file contents
+          attachments: (options.attachments || []).map((file) => ({
+            name: file.name,
+            language: file.language,
+            type: file.type,
+            content: file.content,
+          })),
           history: (options.history || state.messages).slice(-10).map((msg) => ({
             role: msg.role,
             content: msg.content,
           })),
           mode: options.mode || "chat",
+          playgroundId,
         }),
-        signal: abortControllerRef.current.signal,
+        signal: controller.signal,
       });
 
+      if (response.status === 429) {
+        throw await throttledError(response);
+      }
+
       if (!response.ok) {
         throw new Error(`HTTP error! status: ${response.status}`);
       }
@@ -159,75 +275,7 @@ export const useStreamingChat = (): UseStreamingChatReturn => {
         isStreaming: true 
       }));
 
-      const reader = response.body.getReader();
-      readerRef.current = reader;
-      let accumulatedContent = "";
-
-      while (true) {
-        const { done, value } = await reader.read();
-        
-        if (done) {
-          console.log("Chat stream completed");
-          setState((prev) => ({
-            ...prev,
-            isStreaming: false,
-            currentStreamingMessageId: null,
-            messages: prev.messages.map(msg => 
-              msg.id === assistantMessageId 
-                ? { ...msg, isStreaming: false }
-                : msg
-            )
-          }));
-          break;
-        }
-
-        const chunk = new TextDecoder().decode(value);
-        const lines = chunk.split('\n');
-
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            try {
-              const data = JSON.parse(line.slice(6));
-              
-              if (data.chunk) {
-                accumulatedContent += data.chunk;
-                
-                // Update message content in real-time
-                setState((prev) => ({
-                  ...prev,
-                  messages: prev.messages.map(msg => 
-                    msg.id === assistantMessageId 
-                      ? { 
-                          ...msg, 
-                          content: accumulatedContent,
-                          tokens: data.tokens,
-                          model: data.model || "AI Assistant"
-                        }
-                      : msg
-                  )
-                }));
-              }
-              
-              if (data.done) {
-                console.log("Chat stream marked as done");
-                setState((prev) => ({
-                  ...prev,
-                  isStreaming: false,
-                  currentStreamingMessageId: null,
-                  messages: prev.messages.map(msg => 
-                    msg.id === assistantMessageId 
-                      ? { ...msg, isStreaming: false }
-                      : msg
-                  )
-                }));
-                return;
-              }
-            } catch (e) {
-              console.warn("Failed to parse streaming chat data:", line);
-            }
-          }
-        }
-      }
+      await consumeStream(response.body);
 
     } catch (error: any) {
       console.error("Error in streaming chat:", error);
@@ -237,6 +285,15 @@ export const useStreamingChat = (): UseStreamingChatReturn => {
         return;
       }
 
+      // A dropped connection resumes the generation the server is still buffering
+      const interrupted = !(error instanceof StreamingError && !error.recoverable);
+      if (generationId && !finished && interrupted) {
+        setState((prev) => ({ ...prev, error: "Connection lost. Resuming..." }));
+        await streamingErrorHandler.handleError(error, `chat:${assistantMessageId}`, resumeStream);
+        streamingErrorHandler.resetRetries(`chat:${assistantMessageId}`);
+        if (finished || controller.signal.aborted) return;
+      }
+
       // Remove the failed assistant message and show error
       setState((prev) => ({
         ...prev,
@@ -247,10 +304,12 @@ export const useStreamingChat = (): UseStreamingChatReturn => {
         messages: prev.messages.filter(msg => msg.id !== assistantMessageId)
       }));
 
-      // Add error message
+      // Add error message; a throttled request says why and when to try again
       const errorMessage: ChatMessage = {
         role: "assistant",
-        content: "I'm having trouble connecting right now. Please check your connection and try again.",
+        content: error instanceof ThrottledError
+          ? error.message
+          : "I'm having trouble connecting right now. Please check your connection and try again.",
         timestamp: new Date(),
         id: Date.now().toString(),
       };
@@ -261,10 +320,13 @@ export const useStreamingChat = (): UseStreamingChatReturn => {
       }));
 
     } finally {
-      abortControllerRef.current = null;
-      readerRef.current = null;
+      // A newer message may have started its own stream in the meantime
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+        readerRef.current = null;
+      }
     }
-  }, [state.messages, cancelStream]);
+  }, [state.messages, cancelStream, playgroundId]);
 
   const clearMessages = useCallback(() => {
     cancelStream();
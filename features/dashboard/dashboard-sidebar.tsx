@@ -4,6 +4,7 @@ import { useState } from "react"
 import Link from "next/link"
 import { usePathname } from "next/navigation"
 import {
+  BarChart3,
   Code2,
   Compass,
   FolderPlus,
@@ -89,6 +90,14 @@ export function DashboardSidebar({ initialPlaygroundData }: { initialPlaygroundD
                 </Link>
               </SidebarMenuButton>
             </SidebarMenuItem>
+            <SidebarMenuItem>
+              <SidebarMenuButton asChild isActive={pathname === "/dashboard/usage"} tooltip="Usage">
+                <Link href="/dashboard/usage">
+                  <BarChart3 className="h-4 w-4" />
+                  <span>Usage</span>
+                </Link>
+              </SidebarMenuButton>
+            </SidebarMenuItem>
           
           </SidebarMenu>
         </SidebarGroup>
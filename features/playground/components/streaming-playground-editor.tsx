@@ -33,11 +33,14 @@ export const StreamingPlaygroundEditor = forwardRef<StreamingPlaygroundEditorRef
 
   const {
     suggestion,
+    candidates,
     isLoading,
     isStreaming,
     position,
     isEnabled,
     error,
+    queuePosition,
+    throttledUntil,
     toggleEnabled,
     fetchSuggestion,
     acceptSuggestion,
@@ -135,9 +138,9 @@ export const StreamingPlaygroundEditor = forwardRef<StreamingPlaygroundEditorRef
       editorRef.current,
       monacoRef.current,
       {
-        onAccept: (editor, monaco) => {
-          console.log("Suggestion accepted via manager")
-          acceptSuggestion(editor, monaco)
+        onAccept: (editor, monaco, candidate) => {
+          console.log("Suggestion accepted via manager, candidate", candidate)
+          acceptSuggestion(editor, monaco, candidate)
         },
         onReject: (editor) => {
           console.log("Suggestion rejected via manager")
@@ -164,19 +167,20 @@ export const StreamingPlaygroundEditor = forwardRef<StreamingPlaygroundEditorRef
       suggestionManagerRef.current.startStreamingSuggestion(position)
     } else if (isStreaming && suggestion) {
       // Update streaming suggestion
-      suggestionManagerRef.current.updateStreamingSuggestion(suggestion)
+      suggestionManagerRef.current.updateStreamingSuggestion(candidates)
     } else if (!isStreaming && suggestion && position) {
-      // Complete streaming or show final suggestion
+      // Complete streaming with the final texts or show final suggestion
       if (suggestionManagerRef.current.isStreaming()) {
+        suggestionManagerRef.current.updateStreamingSuggestion(candidates)
         suggestionManagerRef.current.completeStreamingSuggestion()
       } else {
-        suggestionManagerRef.current.showSuggestion(suggestion, position)
+        suggestionManagerRef.current.showSuggestion(candidates, position)
       }
     } else if (!suggestion && !isLoading) {
       // Clear suggestion
       suggestionManagerRef.current.clearSuggestion()
     }
-  }, [suggestion, isLoading, isStreaming, position])
+  }, [suggestion, candidates, isLoading, isStreaming, position])
 
   const handleEditorDidMount = (editor: any, monaco: Monaco) => {
     editorRef.current = editor
@@ -224,6 +228,14 @@ export const StreamingPlaygroundEditor = forwardRef<StreamingPlaygroundEditorRef
       editor.trigger("keyboard", "tab", null)
     }, "editorTextFocus && !editorReadonly && !suggestWidgetVisible")
 
+    // Alt+] / Alt+[ to cycle through alternative suggestions
+    editor.addCommand(monaco.KeyMod.Alt | monaco.KeyCode.BracketRight, () => {
+      suggestionManagerRef.current?.cycleCandidate(1)
+    })
+    editor.addCommand(monaco.KeyMod.Alt | monaco.KeyCode.BracketLeft, () => {
+      suggestionManagerRef.current?.cycleCandidate(-1)
+    })
+
     // Escape to reject
     editor.addCommand(monaco.KeyCode.Escape, () => {
       if (suggestionManagerRef.current?.hasActiveSuggestion()) {
@@ -335,6 +347,14 @@ export const StreamingPlaygroundEditor = forwardRef<StreamingPlaygroundEditorRef
           </div>
         )}
 
+        {/* Waiting for a model slot on the server */}
+        {queuePosition && (
+          <div className="bg-blue-100 dark:bg-blue-900 px-2 py-1 rounded text-xs text-blue-700 dark:text-blue-300 flex items-center gap-1">
+            <div className="w-2 h-2 bg-blue-500 rounded-full animate-pulse"></div>
+            Queued: #{queuePosition} in line
+          </div>
+        )}
+
         {/* Streaming indicator */}
         {isStreaming && (
           <div className="bg-purple-100 dark:bg-purple-900 px-2 py-1 rounded text-xs text-purple-700 dark:text-purple-300 flex items-center gap-1">
@@ -351,8 +371,16 @@ export const StreamingPlaygroundEditor = forwardRef<StreamingPlaygroundEditorRef
           </div>
         )}
 
+        {/* Rate limited: suggestions pause until the server takes requests again */}
+        {throttledUntil && (
+          <div className="bg-amber-100 dark:bg-amber-900 px-2 py-1 rounded text-xs text-amber-700 dark:text-amber-300 flex items-center gap-1">
+            <div className="w-2 h-2 bg-amber-500 rounded-full"></div>
+            {error ?? `AI suggestions paused until ${new Date(throttledUntil).toLocaleTimeString()}`}
+          </div>
+        )}
+
         {/* Error indicator */}
-        {error && (
+        {error && !throttledUntil && (
           <div className="bg-red-100 dark:bg-red-900 px-2 py-1 rounded text-xs text-red-700 dark:text-red-300 flex items-center gap-1">
             <div className="w-2 h-2 bg-red-500 rounded-full"></div>
             Error: {error}
@@ -388,6 +416,13 @@ export const StreamingPlaygroundEditor = forwardRef<StreamingPlaygroundEditorRef
           animation: pulse 1s infinite;
         }
         
+        .candidate-indicator {
+          color: #8b5cf6;
+          opacity: 0.7;
+          font-size: 0.85em;
+          margin-left: 0.5em;
+        }
+        
         @keyframes pulse {
           0%, 100% { opacity: 1; }
           50% { opacity: 0.5; }
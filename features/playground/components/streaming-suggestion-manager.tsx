@@ -2,14 +2,17 @@ import type { Monaco } from "@monaco-editor/react"
 import type { editor as MonacoEditor, IDisposable } from "monaco-editor"
 
 interface StreamingSuggestionCallbacks {
-  onAccept: (editor: MonacoEditor.IStandaloneCodeEditor, monaco: Monaco) => void
+  // `candidate` is the index of the alternative that was inserted
+  onAccept: (editor: MonacoEditor.IStandaloneCodeEditor, monaco: Monaco, candidate: number) => void
   onReject: (editor: MonacoEditor.IStandaloneCodeEditor) => void
   onTrigger: (type: string, editor: MonacoEditor.IStandaloneCodeEditor) => void
   onCancel: () => void
 }
 
 interface ActiveStreamingSuggestion {
-  text: string
+  // Alternatives for the same spot; `index` is the one shown
+  candidates: string[]
+  index: number
   position: { line: number; column: number }
   id: string
   isStreaming: boolean
@@ -42,7 +45,8 @@ export class StreamingSuggestionManager {
     this.clearSuggestion()
 
     this.activeSuggestion = {
-      text: "",
+      candidates: [],
+      index: 0,
       position,
       id: this.generateId(),
       isStreaming: true,
@@ -53,15 +57,17 @@ export class StreamingSuggestionManager {
   }
 
   /**
-   * Update the streaming suggestion with new text
+   * Update the streaming suggestion with the latest text of every candidate
    */
-  updateStreamingSuggestion(newText: string): void {
+  updateStreamingSuggestion(candidates: string[]): void {
     if (!this.activeSuggestion) return
 
-    this.activeSuggestion.text = newText
+    this.activeSuggestion.candidates = candidates.map((text) => text.replace(/\r/g, ""))
+    // Candidates can disappear when the stream completes
+    this.activeSuggestion.index = Math.min(this.activeSuggestion.index, Math.max(candidates.length - 1, 0))
     this.updateInlineDisplay()
     
-    console.log("Updated streaming suggestion:", newText.substring(0, 50) + "...")
+    console.log("Updated streaming suggestion:", this.getCurrentSuggestion().substring(0, 50) + "...")
   }
 
   /**
@@ -78,13 +84,14 @@ export class StreamingSuggestionManager {
   }
 
   /**
-   * Show a complete suggestion (non-streaming)
+   * Show complete suggestions (non-streaming)
    */
-  showSuggestion(text: string, position: { line: number; column: number }): void {
+  showSuggestion(candidates: string[], position: { line: number; column: number }): void {
     this.clearSuggestion()
 
     this.activeSuggestion = {
-      text: text.replace(/\r/g, ""),
+      candidates: candidates.map((text) => text.replace(/\r/g, "")),
+      index: 0,
       position,
       id: this.generateId(),
       isStreaming: false,
@@ -119,6 +126,27 @@ export class StreamingSuggestionManager {
     }
   }
 
+  /**
+   * Show the next (`step` 1) or previous (`step` -1) candidate, skipping
+   * empty ones. Returns false when there is nothing to cycle to.
+   */
+  cycleCandidate(step: 1 | -1): boolean {
+    if (!this.activeSuggestion) return false
+
+    const { candidates, index } = this.activeSuggestion
+    for (let offset = 1; offset < candidates.length; offset++) {
+      const next = (index + step * offset + candidates.length) % candidates.length
+      if (candidates[next].trim()) {
+        this.activeSuggestion.index = next
+        // Monaco keeps showing the old ghost text until the widget is re-queried
+        this.editor.trigger("ai", "editor.action.inlineSuggest.hide", null)
+        this.updateInlineDisplay()
+        return true
+      }
+    }
+    return false
+  }
+
   /**
    * Accept the current suggestion
    */
@@ -137,6 +165,7 @@ export class StreamingSuggestionManager {
 
     try {
       const suggestion = this.activeSuggestion
+      const text = this.getCurrentSuggestion()
       const currentPosition = this.editor.getPosition()
 
       if (!currentPosition) {
@@ -156,7 +185,7 @@ export class StreamingSuggestionManager {
       const success = this.editor.executeEdits("streaming-ai-suggestion-accept", [
         {
           range,
-          text: suggestion.text,
+          text,
           forceMoveMarkers: true,
         },
       ])
@@ -167,13 +196,13 @@ export class StreamingSuggestionManager {
       }
 
       // Calculate new cursor position
-      const lines = suggestion.text.split("\n")
+      const lines = text.split("\n")
       let newLine: number
       let newColumn: number
 
       if (lines.length === 1) {
         newLine = suggestion.position.line
-        newColumn = suggestion.position.column + suggestion.text.length
+        newColumn = suggestion.position.column + text.length
       } else {
         newLine = suggestion.position.line + lines.length - 1
         newColumn = lines[lines.length - 1].length + 1
@@ -189,7 +218,7 @@ export class StreamingSuggestionManager {
 
       // Clear suggestion and call callback
       this.clearSuggestion()
-      this.callbacks.onAccept(this.editor, this.monaco)
+      this.callbacks.onAccept(this.editor, this.monaco, suggestion.index)
 
       return true
     } catch (error) {
@@ -233,7 +262,16 @@ export class StreamingSuggestionManager {
    * Get current suggestion text
    */
   getCurrentSuggestion(): string {
-    return this.activeSuggestion?.text || ""
+    return this.activeSuggestion?.candidates[this.activeSuggestion.index] || ""
+  }
+
+  /**
+   * "2/3" for the candidate shown, or empty when there is only one
+   */
+  private candidateLabel(): string {
+    if (!this.activeSuggestion) return ""
+    const { candidates, index } = this.activeSuggestion
+    return candidates.length > 1 ? `${index + 1}/${candidates.length}` : ""
   }
 
   /**
@@ -247,8 +285,9 @@ export class StreamingSuggestionManager {
       this.decorations = this.editor.deltaDecorations(this.decorations, [])
     }
 
-    // Add streaming indicator decoration
-    if (this.activeSuggestion.isStreaming) {
+    // Add streaming and candidate indicator decoration
+    const label = this.candidateLabel()
+    if (this.activeSuggestion.isStreaming || label) {
       const position = this.activeSuggestion.position
       this.decorations = this.editor.deltaDecorations([], [
         {
@@ -256,8 +295,8 @@ export class StreamingSuggestionManager {
           options: {
             className: 'streaming-suggestion-cursor',
             after: {
-              content: '⚡',
-              inlineClassName: 'streaming-indicator'
+              content: [this.activeSuggestion.isStreaming ? '⚡' : '', label].filter(Boolean).join(' '),
+              inlineClassName: this.activeSuggestion.isStreaming ? 'streaming-indicator' : 'candidate-indicator'
             }
           }
         }
@@ -296,19 +335,18 @@ export class StreamingSuggestionManager {
           return { items: [] }
         }
 
+        const text = this.getCurrentSuggestion()
+        const label = this.candidateLabel()
+
         // Don't show empty suggestions
-        if (!this.activeSuggestion.text.trim()) {
+        if (!text.trim()) {
           return { items: [] }
         }
 
-        const displayText = this.activeSuggestion.isStreaming 
-          ? this.activeSuggestion.text + "⚡" 
-          : this.activeSuggestion.text
-
         return {
           items: [
             {
-              insertText: this.activeSuggestion.text,
+              insertText: text,
               range: new this.monaco.Range(
                 position.lineNumber, 
                 position.column, 
@@ -316,13 +354,13 @@ export class StreamingSuggestionManager {
                 position.column
               ),
               kind: this.monaco.languages.CompletionItemKind.Snippet,
-              label: this.activeSuggestion.isStreaming ? "AI Streaming..." : "AI Suggestion",
+              label: `${this.activeSuggestion.isStreaming ? "AI Streaming..." : "AI Suggestion"}${label ? ` ${label}` : ""}`,
               detail: this.activeSuggestion.isStreaming 
                 ? "Streaming AI-generated code" 
                 : "AI-generated code suggestion",
               documentation: this.activeSuggestion.isStreaming 
                 ? "Wait for completion or press Tab to accept current" 
-                : "Press Tab to accept",
+                : label ? "Press Tab to accept, Alt+] / Alt+[ for alternatives" : "Press Tab to accept",
               sortText: "0000",
               filterText: "",
             },
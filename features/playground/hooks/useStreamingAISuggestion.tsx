@@ -1,37 +1,91 @@
 import { useState, useRef, useCallback } from "react";
+import { useParams } from "next/navigation";
+import { readEvents } from "@/lib/stream-events";
+import { throttledError, ThrottledError } from "@/lib/streaming-error-handler";
 
 interface StreamingAISuggestionsState {
-  suggestion: string;
+  // Alternatives for the same spot, in the order the server ranked them
+  candidates: string[];
   isLoading: boolean;
   isStreaming: boolean;
   position: { line: number; column: number } | null;
   decoration: string[];
   isEnabled: boolean;
   error: string | null;
+  // Place in the server's model queue while waiting for a slot
+  queuePosition: number | null;
+  // Rate limited: no requests are sent before this time (ms since epoch)
+  throttledUntil: number | null;
 }
 
 interface UseStreamingAISuggestionsReturn extends StreamingAISuggestionsState {
+  // First non-empty candidate
+  suggestion: string;
   toggleEnabled: () => void;
   fetchSuggestion: (type: string, editor: any) => Promise<void>;
-  acceptSuggestion: (editor: any, monaco: any) => void;
+  acceptSuggestion: (editor: any, monaco: any, candidate?: number) => void;
   rejectSuggestion: (editor: any) => void;
   clearSuggestion: (editor: any) => void;
   cancelStream: () => void;
 }
 
+// Alternatives requested per completion, cycled with Alt+] / Alt+[
+const CANDIDATE_COUNT = 3;
+
+// Identifies one editor to the server, which cancels its superseded completions
+const createSessionId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+// Tell the semantic cache whether a suggestion it served was kept
+const reportFeedback = (cacheKey: string | null, accepted: boolean, candidate?: number) => {
+  if (!cacheKey) return;
+
+  fetch("/api/code-suggestion/feedback", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ cacheKey, accepted, candidate }),
+  }).catch((error) => {
+    console.warn("Failed to report suggestion feedback:", error);
+  });
+};
+
+// Strip markers the model wraps code in from a streamed candidate
+const cleanCandidate = (text: string): string => {
+  let cleanSuggestion = text.trim();
+
+  // Remove cursor markers if present
+  cleanSuggestion = cleanSuggestion.replace(/\|CURSOR\|/g, "");
+
+  // Remove code block markers if present
+  if (cleanSuggestion.includes("```")) {
+    const codeMatch = cleanSuggestion.match(/```[\w]*\n?([\s\S]*?)```/);
+    cleanSuggestion = codeMatch ? codeMatch[1].trim() : cleanSuggestion;
+  }
+
+  return cleanSuggestion;
+};
+
 export const useStreamingAISuggestions = (): UseStreamingAISuggestionsReturn => {
   const [state, setState] = useState<StreamingAISuggestionsState>({
-    suggestion: "",
+    candidates: [],
     isLoading: false,
     isStreaming: false,
     position: null,
     decoration: [],
     isEnabled: true,
     error: null,
+    queuePosition: null,
+    throttledUntil: null,
   });
 
   const abortControllerRef = useRef<AbortController | null>(null);
   const readerRef = useRef<ReadableStreamDefaultReader | null>(null);
+  // Cache entry behind each candidate, sent with accept/reject feedback
+  const cacheKeysRef = useRef<(string | null)[]>([]);
+  const [sessionId] = useState(createSessionId);
+  // Token usage is attributed to the open playground
+  const { id: playgroundId } = useParams<{ id?: string }>();
+  const throttledUntilRef = useRef(0);
+  const throttleTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   const toggleEnabled = useCallback(() => {
     console.log("Toggling streaming AI suggestions");
@@ -51,6 +105,7 @@ export const useStreamingAISuggestions = (): UseStreamingAISuggestionsReturn =>
       ...prev, 
       isLoading: false, 
       isStreaming: false,
+      queuePosition: null,
       error: null 
     }));
   }, []);
@@ -69,6 +124,11 @@ export const useStreamingAISuggestions = (): UseStreamingAISuggestionsReturn =>
         return currentState;
       }
 
+      // Asking again before Retry-After would only be refused again
+      if (Date.now() < throttledUntilRef.current) {
+        return currentState;
+      }
+
       const model = editor.getModel();
       const cursorPosition = editor.getPosition();
 
@@ -83,15 +143,18 @@ export const useStreamingAISuggestions = (): UseStreamingAISuggestionsReturn =>
       }
 
       // Create new abort controller
-      abortControllerRef.current = new AbortController();
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+      cacheKeysRef.current = [];
 
       // Set loading state immediately
       const newState = { 
         ...currentState, 
         isLoading: true, 
         isStreaming: false,
-        suggestion: "",
+        candidates: [],
         error: null,
+        queuePosition: null,
         position: {
           line: cursorPosition.lineNumber,
           column: cursorPosition.column,
@@ -107,6 +170,9 @@ export const useStreamingAISuggestions = (): UseStreamingAISuggestionsReturn =>
             cursorColumn: cursorPosition.column - 1,
             suggestionType: type,
             fileName: model.uri?.path?.split('/').pop() || 'file.js', // Add filename for better language detection
+            candidates: CANDIDATE_COUNT,
+            session: sessionId,
+            playgroundId,
           };
 
           console.log("Streaming request payload:", {
@@ -118,9 +184,13 @@ export const useStreamingAISuggestions = (): UseStreamingAISuggestionsReturn =>
             method: "POST",
             headers: { "Content-Type": "application/json" },
             body: JSON.stringify(payload),
-            signal: abortControllerRef.current?.signal,
+            signal: controller.signal,
           });
 
+          if (response.status === 429) {
+            throw await throttledError(response);
+          }
+
           if (!response.ok) {
             throw new Error(`API responded with status ${response.status}`);
           }
@@ -137,59 +207,52 @@ export const useStreamingAISuggestions = (): UseStreamingAISuggestionsReturn =>
 
           const reader = response.body.getReader();
           readerRef.current = reader;
-          let accumulatedSuggestion = "";
-
-          while (true) {
-            const { done, value } = await reader.read();
-            
-            if (done) {
-              console.log("Stream completed");
-              setState((prev) => ({ ...prev, isStreaming: false }));
-              break;
-            }
+          const accumulated: string[] = [];
+
+          for await (const { event } of readEvents(reader)) {
+            switch (event.type) {
+              case "queued":
+                setState((prev) => ({ ...prev, queuePosition: event.position }));
+                break;
+
+              case "cache-hit":
+                cacheKeysRef.current[event.candidate ?? 0] = event.cacheKey;
+                break;
+
+              case "delta": {
+                const candidate = event.candidate ?? 0;
+                accumulated[candidate] = (accumulated[candidate] ?? "") + event.text;
+
+                // Update suggestions in real-time
+                const candidates = Array.from(accumulated, (text) => cleanCandidate(text ?? ""));
+                setState((prev) => ({ ...prev, candidates, queuePosition: null }));
+                break;
+              }
+
+              case "warning":
+                console.warn("Suggestion stream warning:", event.message);
+                break;
 
-            const chunk = new TextDecoder().decode(value);
-            const lines = chunk.split('\n');
-
-            for (const line of lines) {
-              if (line.startsWith('data: ')) {
-                try {
-                  const data = JSON.parse(line.slice(6));
-                  
-                  if (data.chunk) {
-                    accumulatedSuggestion += data.chunk;
-                    
-                    // Clean accumulated suggestion
-                    let cleanSuggestion = accumulatedSuggestion.trim();
-                    
-                    // Remove cursor markers if present
-                    cleanSuggestion = cleanSuggestion.replace(/\|CURSOR\|/g, "");
-                    
-                    // Remove code block markers if present
-                    if (cleanSuggestion.includes("```")) {
-                      const codeMatch = cleanSuggestion.match(/```[\w]*\n?([\s\S]*?)```/);
-                      cleanSuggestion = codeMatch ? codeMatch[1].trim() : cleanSuggestion;
-                    }
-                    
-                    // Update suggestion in real-time
-                    setState((prev) => ({
-                      ...prev,
-                      suggestion: cleanSuggestion,
-                    }));
-                  }
-                  
-                  if (data.done) {
-                    console.log("Stream marked as done");
-                    setState((prev) => ({ ...prev, isStreaming: false }));
-                    return;
-                  }
-                } catch (e) {
-                  console.warn("Failed to parse streaming data:", line);
+              case "error":
+                throw new Error(event.message);
+
+              case "done": {
+                // The server's final texts, trimmed where they overlapped the code after the cursor
+                const finals = event.candidates;
+                if (finals) {
+                  cacheKeysRef.current = finals.map((final) => final.cacheKey);
+                  setState((prev) => ({ ...prev, candidates: finals.map((final) => final.suggestion) }));
                 }
+                console.log("Stream marked as done");
+                setState((prev) => ({ ...prev, isStreaming: false, queuePosition: null }));
+                return;
               }
             }
           }
 
+          console.log("Stream completed");
+          setState((prev) => ({ ...prev, isStreaming: false }));
+
         } catch (error: any) {
           console.error("Error in streaming suggestion:", error);
           
@@ -198,54 +261,73 @@ export const useStreamingAISuggestions = (): UseStreamingAISuggestionsReturn =>
             return;
           }
 
+          if (error instanceof ThrottledError) {
+            const throttledUntil = Date.now() + error.retryAfterSeconds * 1000;
+            throttledUntilRef.current = throttledUntil;
+
+            // Take the notice down once requests are allowed again
+            if (throttleTimerRef.current) clearTimeout(throttleTimerRef.current);
+            throttleTimerRef.current = setTimeout(() => {
+              setState((prev) => (
+                prev.throttledUntil === throttledUntil ? { ...prev, throttledUntil: null, error: null } : prev
+              ));
+            }, error.retryAfterSeconds * 1000);
+
+            setState((prev) => ({
+              ...prev,
+              isLoading: false,
+              isStreaming: false,
+              queuePosition: null,
+              throttledUntil,
+              error: error.message,
+            }));
+            return;
+          }
+
           setState((prev) => ({ 
             ...prev, 
             isLoading: false, 
             isStreaming: false,
+            queuePosition: null,
             error: error.message || "Failed to get suggestion"
           }));
         } finally {
-          abortControllerRef.current = null;
-          readerRef.current = null;
+          // A newer request may have started its own stream in the meantime
+          if (abortControllerRef.current === controller) {
+            abortControllerRef.current = null;
+            readerRef.current = null;
+          }
         }
       })();
 
       return newState;
     });
-  }, []);
+  }, [sessionId, playgroundId]);
 
+  /**
+   * Record that `candidate` was inserted (the suggestion manager already put
+   * it in the editor). Cached candidates the user passed over count as rejected.
+   */
   const acceptSuggestion = useCallback(
-    (editor: any, monaco: any) => {
+    (editor: any, monaco: any, candidate = 0) => {
+      cacheKeysRef.current.forEach((cacheKey, index) => {
+        reportFeedback(cacheKey, index === candidate, candidate);
+      });
+      cacheKeysRef.current = [];
+
       setState((currentState) => {
-        if (!currentState.suggestion || !currentState.position || !editor || !monaco) {
+        if (!editor || !monaco) {
           return currentState;
         }
 
-        const { line, column } = currentState.position;
-        const sanitizedSuggestion = currentState.suggestion.replace(/^\d+:\s*/gm, "");
-
-        try {
-          editor.executeEdits("streaming-ai-suggestion", [
-            {
-              range: new monaco.Range(line, column, line, column),
-              text: sanitizedSuggestion,
-              forceMoveMarkers: true,
-            },
-          ]);
-
-          // Clear decorations
-          if (editor && currentState.decoration.length > 0) {
-            editor.deltaDecorations(currentState.decoration, []);
-          }
-
-          console.log("Streaming suggestion accepted successfully");
-        } catch (error) {
-          console.error("Error accepting streaming suggestion:", error);
+        // Clear decorations
+        if (currentState.decoration.length > 0) {
+          editor.deltaDecorations(currentState.decoration, []);
         }
 
         return {
           ...currentState,
-          suggestion: "",
+          candidates: [],
           position: null,
           decoration: [],
           isStreaming: false,
@@ -257,6 +339,9 @@ export const useStreamingAISuggestions = (): UseStreamingAISuggestionsReturn =>
   );
 
   const rejectSuggestion = useCallback((editor: any) => {
+    cacheKeysRef.current.forEach((cacheKey) => reportFeedback(cacheKey, false));
+    cacheKeysRef.current = [];
+
     cancelStream();
     setState((currentState) => {
       if (editor && currentState.decoration.length > 0) {
@@ -264,7 +349,7 @@ export const useStreamingAISuggestions = (): UseStreamingAISuggestionsReturn =>
       }
       return {
         ...currentState,
-        suggestion: "",
+        candidates: [],
         position: null,
         decoration: [],
         isStreaming: false,
@@ -274,6 +359,7 @@ export const useStreamingAISuggestions = (): UseStreamingAISuggestionsReturn =>
   }, [cancelStream]);
 
   const clearSuggestion = useCallback((editor: any) => {
+    cacheKeysRef.current = [];
     cancelStream();
     setState((currentState) => {
       if (editor && currentState.decoration.length > 0) {
@@ -281,7 +367,7 @@ export const useStreamingAISuggestions = (): UseStreamingAISuggestionsReturn =>
       }
       return {
         ...currentState,
-        suggestion: "",
+        candidates: [],
         position: null,
         decoration: [],
         isStreaming: false,
@@ -292,6 +378,7 @@ export const useStreamingAISuggestions = (): UseStreamingAISuggestionsReturn =>
 
   return {
     ...state,
+    suggestion: state.candidates.find((candidate) => candidate.trim()) ?? "",
     toggleEnabled,
     fetchSuggestion,
     acceptSuggestion,
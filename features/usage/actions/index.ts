@@ -0,0 +1,95 @@
+"use server"
+import { currentUser } from "@/features/auth/actions";
+import { db } from "@/lib/db"
+import { quotaDay, ROLE_LIMITS } from "@/lib/rate-limit";
+import type { DailyUsage, PlaygroundUsage, UsageSummary } from "../types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface UsageGroup {
+  cached: boolean
+  _sum: { promptTokens: number | null; completionTokens: number | null }
+  _count: { _all: number }
+}
+
+const tokensOf = (group: UsageGroup) => (group._sum.promptTokens ?? 0) + (group._sum.completionTokens ?? 0);
+
+// Token usage of the current user over the last `days` days, oldest day first
+export const getTokenUsageForUser = async (days = 30): Promise<UsageSummary> => {
+  const user = await currentUser();
+  const quota = ROLE_LIMITS[user?.role ?? "USER"].dailyTokens;
+
+  const now = Date.now();
+  const range = Array.from({ length: days }, (_, i) => quotaDay(new Date(now - (days - 1 - i) * DAY_MS)));
+  const summary: UsageSummary = {
+    days: range.map((day) => ({
+      day,
+      promptTokens: 0,
+      completionTokens: 0,
+      savedTokens: 0,
+      requests: 0,
+      cachedRequests: 0,
+    })),
+    playgrounds: [],
+    usedTokens: 0,
+    savedTokens: 0,
+    usedToday: 0,
+    dailyQuota: Number.isFinite(quota) ? quota : null,
+  };
+  if (!user?.id) return summary;
+
+  const where = { userId: user.id, day: { gte: range[0] } };
+  const sum = { promptTokens: true, completionTokens: true } as const;
+
+  try {
+    const [byDay, byPlayground] = await Promise.all([
+      db.tokenUsage.groupBy({ by: ["day", "cached"], where, _sum: sum, _count: { _all: true } }),
+      db.tokenUsage.groupBy({ by: ["playgroundId", "cached"], where, _sum: sum, _count: { _all: true } }),
+    ]);
+
+    const daily = new Map<string, DailyUsage>(summary.days.map((entry) => [entry.day, entry]));
+    for (const group of byDay as (UsageGroup & { day: string })[]) {
+      const entry = daily.get(group.day);
+      if (!entry) continue;
+      entry.requests += group._count._all;
+      if (group.cached) {
+        entry.savedTokens += tokensOf(group);
+        entry.cachedRequests += group._count._all;
+      } else {
+        entry.promptTokens += group._sum.promptTokens ?? 0;
+        entry.completionTokens += group._sum.completionTokens ?? 0;
+      }
+    }
+
+    const perPlayground = new Map<string | null, PlaygroundUsage>();
+    for (const group of byPlayground as (UsageGroup & { playgroundId: string | null })[]) {
+      const entry = perPlayground.get(group.playgroundId) ?? {
+        playgroundId: group.playgroundId,
+        title: "Outside a playground",
+        usedTokens: 0,
+        savedTokens: 0,
+      };
+      if (group.cached) entry.savedTokens += tokensOf(group);
+      else entry.usedTokens += tokensOf(group);
+      perPlayground.set(group.playgroundId, entry);
+    }
+
+    const ids = [...perPlayground.keys()].filter((id): id is string => id !== null);
+    const titles = await db.playground.findMany({ where: { id: { in: ids } }, select: { id: true, title: true } });
+    for (const { id, title } of titles as { id: string; title: string }[]) {
+      perPlayground.get(id)!.title = title;
+    }
+
+    summary.playgrounds = [...perPlayground.values()].sort((a, b) => b.usedTokens - a.usedTokens);
+    summary.usedTokens = summary.days.reduce((total, entry) => total + entry.promptTokens + entry.completionTokens, 0);
+    summary.savedTokens = summary.days.reduce((total, entry) => total + entry.savedTokens, 0);
+    const today = daily.get(quotaDay(new Date(now)))!;
+    summary.usedToday = today.promptTokens + today.completionTokens;
+
+    return summary;
+  } catch (error) {
+    console.log(error)
+    // HACKATHON: Show an empty history if DB fails (for demo without DB)
+    return summary;
+  }
+}
@@ -0,0 +1,42 @@
+"use client";
+
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import type { DailyUsage } from "../types";
+
+const usageConfig = {
+  promptTokens: { label: "Prompt", color: "var(--chart-1)" },
+  completionTokens: { label: "Completion", color: "var(--chart-4)" },
+  savedTokens: { label: "Saved by cache", color: "var(--chart-2)" },
+} satisfies ChartConfig;
+
+const formatDay = (day: string) =>
+  new Date(`${day}T00:00:00Z`).toLocaleDateString([], { month: "short", day: "numeric", timeZone: "UTC" });
+
+/**
+ * Tokens per day: prompt and completion tokens the model generated, stacked,
+ * next to what the cache saved
+ */
+export function UsageChart({ days }: { days: DailyUsage[] }) {
+  return (
+    <ChartContainer config={usageConfig} className="aspect-auto h-72 w-full">
+      <BarChart data={days}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="day" tickFormatter={formatDay} minTickGap={24} />
+        <YAxis width={56} />
+        <ChartTooltip content={<ChartTooltipContent labelFormatter={formatDay} />} />
+        <ChartLegend content={<ChartLegendContent />} />
+        <Bar dataKey="promptTokens" stackId="used" fill="var(--color-promptTokens)" />
+        <Bar dataKey="completionTokens" stackId="used" fill="var(--color-completionTokens)" />
+        <Bar dataKey="savedTokens" fill="var(--color-savedTokens)" />
+      </BarChart>
+    </ChartContainer>
+  );
+}
@@ -0,0 +1,26 @@
+export interface DailyUsage {
+  day: string
+  promptTokens: number
+  completionTokens: number
+  // What the cache hits of the day would have cost to generate
+  savedTokens: number
+  requests: number
+  cachedRequests: number
+}
+
+export interface PlaygroundUsage {
+  playgroundId: string | null
+  title: string
+  usedTokens: number
+  savedTokens: number
+}
+
+export interface UsageSummary {
+  days: DailyUsage[]
+  playgrounds: PlaygroundUsage[]
+  usedTokens: number
+  savedTokens: number
+  // Tokens counted against today's quota, and the quota itself (null: unlimited)
+  usedToday: number
+  dailyQuota: number | null
+}
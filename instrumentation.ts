@@ -0,0 +1,8 @@
+// Runs once when the Next.js server starts
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    // Load the embedding model in its worker before the first cache lookup
+    const { warmEmbeddings } = await import('./lib/embedding-service');
+    void warmEmbeddings();
+  }
+}
@@ -0,0 +1,31 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { NextResponse } from 'next/server';
+import { currentUser } from '@/features/auth/actions';
+
+// Shared secret the cache scripts and the admin page send as a bearer token; unset disables it
+const ADMIN_TOKEN = process.env.CACHE_ADMIN_TOKEN || null;
+
+const digest = (value: string) => createHash('sha256').update(value).digest();
+
+function hasAdminToken(request: Request): boolean {
+  if (!ADMIN_TOKEN) return false;
+  const match = request.headers.get('authorization')?.match(/^Bearer\s+(.+)$/i);
+  // Hashed first so the comparison takes as long whatever the length
+  return Boolean(match) && timingSafeEqual(digest(match![1]), digest(ADMIN_TOKEN));
+}
+
+/**
+ * For the cache-admin routes: the response to send unless the request carries
+ * CACHE_ADMIN_TOKEN or comes from a user with the ADMIN role, or null to go ahead
+ */
+export async function requireAdmin(request: Request): Promise<NextResponse | null> {
+  if (hasAdminToken(request)) return null;
+
+  const user = await currentUser();
+  if (user?.role === 'ADMIN') return null;
+
+  return NextResponse.json(
+    { success: false, error: 'Cache admin access needs the CACHE_ADMIN_TOKEN or the ADMIN role' },
+    { status: request.headers.has('authorization') || user ? 403 : 401 }
+  );
+}
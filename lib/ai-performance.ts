@@ -1,71 +1,316 @@
-// Performance monitoring for AI requests
-interface PerformanceMetrics {
-  requestCount: number;
-  totalTime: number;
-  averageTime: number;
-  cacheHits: number;
+import { getRedisClient, redisEnabled } from './redis-client';
+
+// Performance monitoring for AI requests, bucketed per minute and kept in
+// Redis so dashboards survive restarts and see every instance
+export type RequestOutcome = 'hit' | 'miss' | 'error';
+
+export interface RequestSample {
+  // API the request came through, e.g. `code-suggestion` or `chat`
+  route: string;
+  language: string;
+  model: string;
+  outcome: RequestOutcome;
+  latencyMs: number;
+}
+
+export interface SeriesFilter {
+  route?: string;
+  language?: string;
+  model?: string;
+}
+
+export interface SeriesPoint {
+  timestamp: number;
+  requests: number;
+  hits: number;
+  misses: number;
   errors: number;
+  // null when nothing completed in the bucket
+  hitRate: number | null;
+  avgLatencyMs: number | null;
+  p50LatencyMs: number | null;
+  p95LatencyMs: number | null;
 }
 
-class AIPerformanceMonitor {
-  private metrics: PerformanceMetrics = {
-    requestCount: 0,
-    totalTime: 0,
-    averageTime: 0,
-    cacheHits: 0,
-    errors: 0,
+export interface TimeSeries {
+  from: number;
+  to: number;
+  stepMs: number;
+  points: SeriesPoint[];
+  // Upper bounds of the latency histogram buckets, and counts over the whole range
+  latencyBucketsMs: number[];
+  latencyHistogram: number[];
+  // Every route, language and model seen in the range, for filter pickers
+  routes: string[];
+  languages: string[];
+  models: string[];
+  source: 'redis' | 'memory';
+}
+
+const MINUTE_MS = 60 * 1000;
+const BUCKET_PREFIX = 'metrics:minute:';
+const MAX_POINTS = 120;
+
+// The last bucket catches everything slower than 10s
+const LATENCY_BUCKETS_MS = [25, 50, 100, 250, 500, 1000, 2500, 5000, 10000, Infinity];
+
+const COUNTERS = ['requests', 'hits', 'misses', 'errors', 'latencySum'] as const;
+
+const HISTOGRAM_FIELD = /^h\d+$/;
+
+type Counter = (typeof COUNTERS)[number];
+
+const OUTCOME_COUNTERS: Record<RequestOutcome, Counter> = {
+  hit: 'hits',
+  miss: 'misses',
+  error: 'errors',
+};
+
+function bucketKey(minute: number): string {
+  return `${BUCKET_PREFIX}${minute}`;
+}
+
+function minuteOf(timestamp: number): number {
+  return Math.floor(timestamp / MINUTE_MS) * MINUTE_MS;
+}
+
+// `|` separates the parts of a hash field, so it is escaped inside them (and `%`, the escape)
+function escapePart(part: string): string {
+  return part.replace(/%/g, '%25').replace(/\|/g, '%7C');
+}
+
+function unescapePart(part: string): string {
+  return part.replace(/%(25|7C)/g, (_, code: string) => (code === '25' ? '%' : '|'));
+}
+
+// Hash fields are `{route}|{language}|{model}|{counter}`, latency buckets are `h{index}`
+function fieldsFor(sample: RequestSample): [string, number][] {
+  const prefix = [sample.route, sample.language, sample.model].map(escapePart).join('|') + '|';
+  const latency = Math.max(0, Math.round(sample.latencyMs));
+  const bucket = LATENCY_BUCKETS_MS.findIndex((bound) => latency <= bound);
+
+  return [
+    [`${prefix}requests`, 1],
+    [`${prefix}${OUTCOME_COUNTERS[sample.outcome]}`, 1],
+    [`${prefix}latencySum`, latency],
+    [`${prefix}h${bucket}`, 1],
+  ];
+}
+
+// Smallest bucket bound under which `share` of the samples fall
+function percentile(histogram: number[], share: number): number | null {
+  const total = histogram.reduce((sum, count) => sum + count, 0);
+  if (total === 0) return null;
+
+  let seen = 0;
+  for (let i = 0; i < histogram.length; i++) {
+    seen += histogram[i];
+    if (seen >= share * total) {
+      // Past the last finite bound all we know is "slower than that"
+      return Number.isFinite(LATENCY_BUCKETS_MS[i]) ? LATENCY_BUCKETS_MS[i] : LATENCY_BUCKETS_MS[i - 1];
+    }
+  }
+  return null;
+}
+
+export class SeriesRangeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SeriesRangeError';
+  }
+}
+
+interface Accumulator {
+  counters: Record<Counter, number>;
+  histogram: number[];
+}
+
+function emptyAccumulator(): Accumulator {
+  return {
+    counters: { requests: 0, hits: 0, misses: 0, errors: 0, latencySum: 0 },
+    histogram: LATENCY_BUCKETS_MS.map(() => 0),
   };
+}
+
+class AIPerformanceMonitor {
+  private readonly RETRY_INTERVAL_MS = 30 * 1000;
+  private readonly retentionMs = (Number(process.env.METRICS_RETENTION_HOURS) || 7 * 24) * 60 * MINUTE_MS;
+  private redisDownSince: number | null = null;
+  // Buckets recorded while Redis was unreachable; only this process sees them
+  private local = new Map<number, Map<string, number>>();
 
   startTimer(): () => number {
     const start = performance.now();
     return () => performance.now() - start;
   }
 
-  recordRequest(duration: number, fromCache = false, error = false): void {
-    this.metrics.requestCount++;
-    
-    if (error) {
-      this.metrics.errors++;
-      return;
-    }
+  /**
+   * Count a finished request in the current minute's bucket. Best effort:
+   * metrics must never fail a request.
+   */
+  async recordRequest(sample: RequestSample): Promise<void> {
+    const minute = minuteOf(Date.now());
+    const fields = fieldsFor(sample);
 
-    if (fromCache) {
-      this.metrics.cacheHits++;
-    } else {
-      this.metrics.totalTime += duration;
+    const redis = await this.redis();
+    if (redis) {
+      try {
+        const key = bucketKey(minute);
+        const tx = redis.multi();
+        for (const [field, amount] of fields) {
+          tx.hIncrBy(key, field, amount);
+        }
+        await tx.expire(key, Math.ceil(this.retentionMs / 1000)).exec();
+        return;
+      } catch (error) {
+        console.warn('⚠️ Redis unavailable for metrics, keeping them in memory:', error);
+        this.redisDownSince = Date.now();
+      }
     }
 
-    this.metrics.averageTime = this.metrics.totalTime / (this.metrics.requestCount - this.metrics.cacheHits);
+    this.recordLocally(minute, fields);
   }
 
-  getMetrics(): PerformanceMetrics & { cacheHitRate: number } {
+  /**
+   * Aggregate the buckets between `from` and `to` into at most MAX_POINTS
+   * evenly spaced points, keeping only samples that match `filter`. Ranges
+   * longer than the retention window throw a SeriesRangeError.
+   */
+  async getTimeSeries(from: number, to: number, filter: SeriesFilter = {}): Promise<TimeSeries> {
+    if (!(to - from <= this.retentionMs + MINUTE_MS)) {
+      throw new SeriesRangeError(`Range must be at most ${this.retentionMs / (60 * MINUTE_MS)} hours`);
+    }
+
+    // Nothing is recorded in the future or kept past the retention window
+    const now = Date.now();
+    const end = Math.min(minuteOf(to), minuteOf(now));
+    const start = Math.max(minuteOf(from), minuteOf(now - this.retentionMs));
+    const minutes: number[] = [];
+    for (let minute = start; minute <= end; minute += MINUTE_MS) {
+      minutes.push(minute);
+    }
+
+    const { buckets, source } = await this.readBuckets(minutes);
+    const stepMs = Math.max(1, Math.ceil(minutes.length / MAX_POINTS)) * MINUTE_MS;
+    const accumulators = new Map<number, Accumulator>();
+    const total = emptyAccumulator();
+    const routes = new Set<string>();
+    const languages = new Set<string>();
+    const models = new Set<string>();
+
+    minutes.forEach((minute, i) => {
+      const pointStart = start + Math.floor((minute - start) / stepMs) * stepMs;
+      const point = accumulators.get(pointStart) ?? emptyAccumulator();
+      accumulators.set(pointStart, point);
+
+      for (const [field, value] of buckets[i]) {
+        const parts = field.split('|');
+        if (parts.length !== 4) continue;
+        const [route, language, model] = parts.slice(0, 3).map(unescapePart);
+        const counter = parts[3];
+        routes.add(route);
+        languages.add(language);
+        models.add(model);
+
+        if (filter.route && route !== filter.route) continue;
+        if (filter.language && language !== filter.language) continue;
+        if (filter.model && model !== filter.model) continue;
+
+        for (const target of [point, total]) {
+          if (HISTOGRAM_FIELD.test(counter)) {
+            target.histogram[Number(counter.slice(1))] += value;
+          } else if ((COUNTERS as readonly string[]).includes(counter)) {
+            target.counters[counter as Counter] += value;
+          }
+        }
+      }
+    });
+
+    const points = [...accumulators].map(([timestamp, { counters, histogram }]) => {
+      const completed = counters.hits + counters.misses;
+      return {
+        timestamp,
+        requests: counters.requests,
+        hits: counters.hits,
+        misses: counters.misses,
+        errors: counters.errors,
+        hitRate: completed > 0 ? counters.hits / completed : null,
+        avgLatencyMs: counters.requests > 0 ? counters.latencySum / counters.requests : null,
+        p50LatencyMs: percentile(histogram, 0.5),
+        p95LatencyMs: percentile(histogram, 0.95),
+      };
+    });
+
     return {
-      ...this.metrics,
-      cacheHitRate: this.metrics.requestCount > 0 
-        ? (this.metrics.cacheHits / this.metrics.requestCount) * 100 
-        : 0,
+      from: start,
+      to: end + MINUTE_MS,
+      stepMs,
+      points,
+      latencyBucketsMs: LATENCY_BUCKETS_MS.slice(0, -1),
+      latencyHistogram: total.histogram,
+      routes: [...routes].sort(),
+      languages: [...languages].sort(),
+      models: [...models].sort(),
+      source,
     };
   }
 
-  reset(): void {
-    this.metrics = {
-      requestCount: 0,
-      totalTime: 0,
-      averageTime: 0,
-      cacheHits: 0,
-      errors: 0,
+  private async readBuckets(
+    minutes: number[]
+  ): Promise<{ buckets: [string, number][][]; source: TimeSeries['source'] }> {
+    const redis = await this.redis();
+    if (redis) {
+      try {
+        const tx = redis.multi();
+        for (const minute of minutes) {
+          tx.hGetAll(bucketKey(minute));
+        }
+        const rows = (await tx.exec()) as unknown as Record<string, string>[];
+        return {
+          buckets: rows.map((row) => Object.entries(row ?? {}).map(([field, value]) => [field, Number(value) || 0])),
+          source: 'redis',
+        };
+      } catch (error) {
+        console.warn('⚠️ Redis unavailable for metrics, reading in-memory buckets:', error);
+        this.redisDownSince = Date.now();
+      }
+    }
+
+    return {
+      buckets: minutes.map((minute) => [...(this.local.get(minute) ?? [])]),
+      source: 'memory',
     };
   }
 
-  logStats(): void {
-    const stats = this.getMetrics();
-    console.log("🔍 AI Performance Stats:", {
-      "Total Requests": stats.requestCount,
-      "Average Response Time": `${stats.averageTime.toFixed(0)}ms`,
-      "Cache Hit Rate": `${stats.cacheHitRate.toFixed(1)}%`,
-      "Error Rate": `${((stats.errors / stats.requestCount) * 100).toFixed(1)}%`,
-    });
+  // Redis client unless it failed within the last RETRY_INTERVAL_MS
+  private async redis() {
+    if (!redisEnabled()) return null;
+    if (this.redisDownSince !== null && Date.now() - this.redisDownSince < this.RETRY_INTERVAL_MS) {
+      return null;
+    }
+
+    try {
+      const client = await getRedisClient();
+      this.redisDownSince = null;
+      return client;
+    } catch {
+      this.redisDownSince = Date.now();
+      return null;
+    }
+  }
+
+  private recordLocally(minute: number, fields: [string, number][]): void {
+    const bucket = this.local.get(minute) ?? new Map<string, number>();
+    for (const [field, amount] of fields) {
+      bucket.set(field, (bucket.get(field) ?? 0) + amount);
+    }
+    this.local.set(minute, bucket);
+
+    const oldest = minuteOf(Date.now() - this.retentionMs);
+    for (const key of this.local.keys()) {
+      if (key < oldest) this.local.delete(key);
+    }
   }
 }
 
-export const aiPerformanceMonitor = new AIPerformanceMonitor();
\ No newline at end of file
+export const aiPerformanceMonitor = new AIPerformanceMonitor();
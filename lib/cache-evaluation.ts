@@ -0,0 +1,124 @@
+import { SemanticCache, type CacheHit } from './semantic-cache';
+import { MemoryCacheStore } from './cache-store';
+import { CachePolicies, type PolicyConfig } from './cache-policy';
+import { CHAT_GENERATION, CODE_GENERATION } from './cache-version';
+import { createEmbeddingProvider } from './embedding-providers';
+import { embeddingProvider } from './embedding-service';
+import { checkChatResponse, checkCompletion, type GuardrailVerdict } from './suggestion-guardrails';
+import type { RequestLogRecord } from './request-log';
+
+export interface LatencyPercentiles {
+  p50: number;
+  p90: number;
+  p99: number;
+  max: number;
+}
+
+export interface EvaluationReport {
+  requests: number;
+  hits: number;
+  hitsByTier: Record<CacheHit['tier'], number>;
+  hitRate: number;
+  // Misses whose logged answer the guardrails keep out of the cache, as the routes do
+  rejected: number;
+  // Hits on requests that were freshly generated when logged, so correctness is known
+  verifiedHits: number;
+  correctHits: number;
+  // Share of verified hits whose cached answer equals the fresh answer; null without any
+  precision: number | null;
+  lookupLatencyMs: LatencyPercentiles;
+  policy: PolicyConfig;
+  embeddingModel: string;
+  // Hash-seeded vectors instead of a real model: semantic hits are noise, only exact hits mean anything
+  mockEmbeddings: boolean;
+}
+
+// Whitespace differences do not make a cached answer wrong
+function sameAnswer(a: string, b: string): boolean {
+  return a.replace(/\s+/g, ' ').trim() === b.replace(/\s+/g, ' ').trim();
+}
+
+// The check the route runs before caching. Logs from before outcomes were recorded count as finished.
+function guardrailVerdict(record: RequestLogRecord): GuardrailVerdict {
+  const outcome = record.outcome ?? { finished: true };
+  if (record.kind === 'chat') return checkChatResponse(record.output, outcome);
+  if (!record.output) return { ok: false, reason: 'only repeats the code after the cursor' };
+  return checkCompletion(record.input, record.output, outcome);
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+/**
+ * Replay logged requests in order against a fresh in-memory SemanticCache.
+ * The model is stubbed by the logged output: every miss "generates" what the
+ * user got at the time and caches it if the guardrails pass, every hit is
+ * compared against it. Embeddings come from the configured provider, so
+ * semantic hits behave as they would in production; `mockEmbeddings` swaps in
+ * the offline mock for a quick run without the embedding model.
+ */
+export async function evaluateCache(
+  records: RequestLogRecord[],
+  policy: PolicyConfig,
+  { mockEmbeddings = false }: { mockEmbeddings?: boolean } = {}
+): Promise<EvaluationReport> {
+  const embeddings = mockEmbeddings ? createEmbeddingProvider('mock') : embeddingProvider;
+  const cache = new SemanticCache(
+    new MemoryCacheStore(records.length + 1),
+    new CachePolicies(policy),
+    embeddings
+  );
+  const latencies: number[] = [];
+  const report: EvaluationReport = {
+    requests: records.length,
+    hits: 0,
+    hitsByTier: { l1: 0, exact: 0, semantic: 0 },
+    hitRate: 0,
+    rejected: 0,
+    verifiedHits: 0,
+    correctHits: 0,
+    precision: null,
+    lookupLatencyMs: { p50: 0, p90: 0, p99: 0, max: 0 },
+    policy,
+    embeddingModel: embeddings.id,
+    mockEmbeddings,
+  };
+
+  for (const record of records) {
+    const input = {
+      ...record.input,
+      ...(record.kind === 'chat' ? CHAT_GENERATION : CODE_GENERATION),
+    };
+
+    const startTime = performance.now();
+    const hit = await cache.lookupSuggestion(input);
+    latencies.push(performance.now() - startTime);
+
+    if (!hit) {
+      if (guardrailVerdict(record).ok) await cache.cacheSuggestion(input, record.output);
+      else report.rejected++;
+      continue;
+    }
+
+    report.hits++;
+    report.hitsByTier[hit.tier]++;
+    if (record.source === 'model') {
+      report.verifiedHits++;
+      if (sameAnswer(hit.suggestion, record.output)) report.correctHits++;
+    }
+  }
+
+  const sorted = latencies.sort((a, b) => a - b);
+  report.hitRate = records.length > 0 ? report.hits / records.length : 0;
+  report.precision = report.verifiedHits > 0 ? report.correctHits / report.verifiedHits : null;
+  report.lookupLatencyMs = {
+    p50: percentile(sorted, 50),
+    p90: percentile(sorted, 90),
+    p99: percentile(sorted, 99),
+    max: sorted[sorted.length - 1] ?? 0,
+  };
+
+  return report;
+}
@@ -0,0 +1,79 @@
+import { randomUUID } from 'crypto';
+import { getRedisClient, getRedisSubscriber, redisEnabled, RedisUnavailableError } from './redis-client';
+
+// Redis pub/sub channel used to keep every instance's L1 cache in sync with L2
+// and to have them reload the cache policy together
+export const INVALIDATION_CHANNEL = 'code_suggestion:invalidate';
+
+// Identifies this process so it can ignore its own broadcasts
+export const INSTANCE_ID = randomUUID();
+
+export type InvalidationMessage =
+  | { type: 'evict'; keys: string[]; origin: string }
+  | { type: 'clear'; origin: string }
+  | { type: 'policy'; origin: string };
+
+type InvalidationHandler = (message: InvalidationMessage) => void;
+
+let subscribed = false;
+let subscribing: Promise<void> | null = null;
+const handlers = new Set<InvalidationHandler>();
+
+/**
+ * Broadcast an invalidation to every instance. Best effort: when Redis is down
+ * there is no L2 shared between instances to be stale against.
+ */
+export async function publishInvalidation(
+  message: { type: 'evict'; keys: string[] } | { type: 'clear' } | { type: 'policy' }
+): Promise<void> {
+  if (!redisEnabled()) return;
+
+  try {
+    const redis = await getRedisClient();
+    await redis.publish(INVALIDATION_CHANNEL, JSON.stringify({ ...message, origin: INSTANCE_ID }));
+  } catch (error) {
+    if (!(error instanceof RedisUnavailableError)) {
+      console.warn('⚠️ Failed to publish cache invalidation:', error);
+    }
+  }
+}
+
+function dispatch(raw: string): void {
+  try {
+    const message: InvalidationMessage = JSON.parse(raw);
+    if (message.origin === INSTANCE_ID) return;
+    handlers.forEach((h) => h(message));
+  } catch (error) {
+    console.error('Invalid cache invalidation message:', error);
+  }
+}
+
+/**
+ * Register a handler for invalidations published by other instances.
+ * The subscription is made lazily and retried on the next call if it fails.
+ */
+export async function onInvalidation(handler: InvalidationHandler): Promise<void> {
+  handlers.add(handler);
+
+  if (subscribed || !redisEnabled()) return;
+  if (subscribing) return subscribing;
+
+  subscribing = (async () => {
+    try {
+      const subscriber = await getRedisSubscriber();
+      await subscriber.subscribe(INVALIDATION_CHANNEL, dispatch);
+      subscriber.once('end', () => {
+        subscribed = false;
+      });
+
+      subscribed = true;
+      console.log('📡 Subscribed to cache invalidations');
+    } catch (error) {
+      console.warn('⚠️ Cache invalidation subscriber unavailable:', error);
+    } finally {
+      subscribing = null;
+    }
+  })();
+
+  return subscribing;
+}
@@ -0,0 +1,195 @@
+import { existsSync, readFileSync } from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { acceptanceScore, type ListedEntry } from './vector-index';
+
+export type EvictionStrategy = 'lru' | 'lfu' | 'acceptance';
+
+const policySchema = z.object({
+  similarityThreshold: z.number().min(0).max(1),
+  ttlSeconds: z.number().int().positive(),
+  // Per language and suggestion type pair
+  maxEntries: z.number().int().positive(),
+  eviction: z.enum(['lru', 'lfu', 'acceptance']),
+});
+
+const ruleSchema = policySchema.partial().extend({
+  language: z.string().optional(),
+  suggestionType: z.string().optional(),
+});
+
+const configSchema = z.object({
+  defaults: policySchema.partial().optional(),
+  rules: z.array(ruleSchema).optional(),
+  memoryBudgetBytes: z.number().int().positive().optional(),
+});
+
+export type CachePolicy = z.infer<typeof policySchema>;
+export type PolicyRule = z.infer<typeof ruleSchema>;
+
+export interface PolicyConfig {
+  defaults: CachePolicy;
+  // Matching rules are applied over the defaults, least specific first
+  rules: PolicyRule[];
+  // Upper bound on the estimated size of every entry together
+  memoryBudgetBytes: number;
+  source: string;
+  loadedAt: number;
+}
+
+const DEFAULT_POLICY: CachePolicy = {
+  similarityThreshold: 0.85, // High threshold for code similarity
+  ttlSeconds: 7 * 24 * 60 * 60, // 7 days
+  maxEntries: 1000,
+  eviction: 'acceptance',
+};
+
+// Chat answers are more sensitive to wording and go stale sooner than completions
+const DEFAULT_RULES: PolicyRule[] = [
+  { language: 'Chat', similarityThreshold: 0.9, ttlSeconds: 24 * 60 * 60 },
+];
+
+const DEFAULT_MEMORY_BUDGET_BYTES = 64 * 1024 * 1024;
+
+const DEFAULT_POLICY_FILE = 'cache-policy.json';
+
+const BUILT_IN = 'built-in';
+
+// The policy file, CACHE_POLICY_FILE or cache-policy.json if it exists; null without one
+function policyFile(): string | null {
+  const file = path.resolve(process.env.CACHE_POLICY_FILE || DEFAULT_POLICY_FILE);
+  return process.env.CACHE_POLICY_FILE || existsSync(file) ? file : null;
+}
+
+function readPolicyFile(file: string): PolicyConfig {
+  return parsePolicyConfig(JSON.parse(readFileSync(file, 'utf8')), file);
+}
+
+/**
+ * Read the policy configuration from, in order: the file named by
+ * CACHE_POLICY_FILE, cache-policy.json in the working directory, or the
+ * CACHE_POLICY env var (inline JSON). Falls back to the built-in policy when
+ * none is set.
+ */
+function loadPolicyConfig(): PolicyConfig {
+  const file = policyFile();
+  if (file) return readPolicyFile(file);
+  if (process.env.CACHE_POLICY) return parsePolicyConfig(JSON.parse(process.env.CACHE_POLICY), 'env:CACHE_POLICY');
+  return parsePolicyConfig(null, BUILT_IN);
+}
+
+export class PolicyReloadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PolicyReloadError';
+  }
+}
+
+/**
+ * Validate a policy configuration object (the JSON file's shape) and fill in
+ * the built-in values. `null` yields the built-in policy.
+ */
+export function parsePolicyConfig(value: unknown, source: string): PolicyConfig {
+  const parsed = value === null ? {} : configSchema.parse(value);
+
+  return {
+    defaults: { ...DEFAULT_POLICY, ...parsed.defaults },
+    rules: parsed.rules ?? DEFAULT_RULES,
+    memoryBudgetBytes:
+      parsed.memoryBudgetBytes ??
+      (Number(process.env.CACHE_MEMORY_BUDGET_BYTES) || DEFAULT_MEMORY_BUDGET_BYTES),
+    source,
+    loadedAt: Date.now(),
+  };
+}
+
+function specificity(rule: PolicyRule): number {
+  return (rule.language ? 1 : 0) + (rule.suggestionType ? 1 : 0);
+}
+
+// The policy fields a rule sets, without its match fields
+function overridesOf(rule: PolicyRule): Partial<CachePolicy> {
+  return Object.fromEntries(
+    Object.entries(rule).filter(([field, value]) => field in DEFAULT_POLICY && value !== undefined)
+  );
+}
+
+// Rough footprint of an entry in Redis: its text fields plus the FLOAT32 embedding
+export function entrySize(entry: ListedEntry): number {
+  let bytes = entry.embeddingDimension * 4;
+  for (const value of Object.values(entry)) {
+    bytes += typeof value === 'string' ? Buffer.byteLength(value) : 8;
+  }
+  return bytes;
+}
+
+type EvictionRow = Pick<ListedEntry, 'timestamp' | 'hitCount' | 'accepts' | 'rejects'>;
+
+const EVICTION_ORDERS: Record<EvictionStrategy, (a: EvictionRow, b: EvictionRow) => number> = {
+  // Least recently used first
+  lru: (a, b) => a.timestamp - b.timestamp,
+  // Least used first, then oldest
+  lfu: (a, b) => a.hitCount - b.hitCount || a.timestamp - b.timestamp,
+  // Least accepted first, then least used, then oldest
+  acceptance: (a, b) =>
+    acceptanceScore(a) - acceptanceScore(b) ||
+    a.hitCount - b.hitCount ||
+    a.timestamp - b.timestamp,
+};
+
+// Comparator that sorts the entries to evict first to the front
+export function evictionOrder(strategy: EvictionStrategy): (a: EvictionRow, b: EvictionRow) => number {
+  return EVICTION_ORDERS[strategy];
+}
+
+export class CachePolicies {
+  private config: PolicyConfig;
+
+  constructor(initial?: PolicyConfig) {
+    if (initial) {
+      this.config = initial;
+      return;
+    }
+
+    try {
+      this.config = loadPolicyConfig();
+    } catch (error) {
+      // A broken policy file must not take the cache down with it
+      console.error('Invalid cache policy, using built-in defaults:', error);
+      this.config = parsePolicyConfig(null, BUILT_IN);
+    }
+  }
+
+  current(): PolicyConfig {
+    return this.config;
+  }
+
+  resolve(language: string, suggestionType: string): CachePolicy {
+    return this.config.rules
+      .filter(
+        (rule) =>
+          (!rule.language || rule.language === language) &&
+          (!rule.suggestionType || rule.suggestionType === suggestionType)
+      )
+      .sort((a, b) => specificity(a) - specificity(b))
+      .reduce<CachePolicy>((policy, rule) => ({ ...policy, ...overridesOf(rule) }), this.config.defaults);
+  }
+
+  /**
+   * Re-read the policy file. The environment cannot change in a running
+   * process, so without a file there is nothing to reload. An invalid file
+   * throws and leaves the current configuration in place.
+   */
+  reload(): PolicyConfig {
+    const file = policyFile();
+    if (!file) {
+      throw new PolicyReloadError('No policy file to reload: set CACHE_POLICY_FILE or create cache-policy.json');
+    }
+    this.config = readPolicyFile(file);
+    console.log(`📐 Cache policy loaded from ${this.config.source}`);
+    return this.config;
+  }
+}
+
+// Singleton instance
+export const cachePolicies = new CachePolicies();
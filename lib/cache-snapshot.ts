@@ -0,0 +1,68 @@
+import { z } from 'zod';
+import type { IndexedEntry } from './vector-index';
+
+export const SNAPSHOT_FORMAT = 'semantic-cache-snapshot';
+
+// Bump when the entry shape below changes incompatibly
+export const SNAPSHOT_FORMAT_VERSION = 1;
+
+const entrySchema = z.object({
+  id: z.string().min(1),
+  context: z.string(),
+  embedding: z.array(z.number()).min(1),
+  suggestion: z.string().min(1),
+  language: z.string().min(1),
+  framework: z.string().min(1),
+  suggestionType: z.string().min(1),
+  model: z.string(),
+  promptVersion: z.string(),
+  embeddingModel: z.string(),
+  embeddingDimension: z.number().int().positive(),
+  version: z.string(),
+  conversation: z.string().default(''),
+  previousLine: z.string().default(''),
+  linePrefix: z.string().default(''),
+  timestamp: z.number(),
+  hitCount: z.number().int().nonnegative().default(0),
+  accepts: z.number().int().nonnegative().default(0),
+  rejects: z.number().int().nonnegative().default(0),
+});
+
+const snapshotSchema = z.object({
+  format: z.literal(SNAPSHOT_FORMAT),
+  formatVersion: z.literal(SNAPSHOT_FORMAT_VERSION),
+  exportedAt: z.number(),
+  // Embedding model of the exporting instance, for information only
+  embeddingModel: z.string(),
+  entries: z.array(entrySchema),
+});
+
+/**
+ * Portable copy of semantic cache entries with their embeddings and
+ * metadata, as written by `npm run cache-snapshot -- --export`.
+ */
+export interface CacheSnapshot {
+  format: typeof SNAPSHOT_FORMAT;
+  formatVersion: typeof SNAPSHOT_FORMAT_VERSION;
+  exportedAt: number;
+  embeddingModel: string;
+  entries: IndexedEntry[];
+}
+
+export interface SnapshotImportReport {
+  imported: number;
+  // Already cached here; the local copy and its counters are kept
+  existing: number;
+  // Embedding missing, non-finite or not of the recorded dimension
+  invalid: number;
+  // Imported from another model, prompt or embedding model; see `npm run migrate-cache`
+  outdated: number;
+}
+
+/**
+ * Validate a snapshot file's contents. Throws a ZodError describing the
+ * first problems found.
+ */
+export function parseSnapshot(value: unknown): CacheSnapshot {
+  return snapshotSchema.parse(value);
+}
@@ -0,0 +1,321 @@
+import { getRedisClient } from './redis-client';
+import { calculateSimilarity, isUsableEmbedding } from './embedding-service';
+import {
+  getVectorIndex,
+  type FeedbackVote,
+  type IndexedEntry,
+  type IndexPartition,
+  type IndexStats,
+  type ListedEntry,
+  type VectorMatch,
+} from './vector-index';
+
+export type CacheBackend = 'redis' | 'memory';
+
+/**
+ * Storage behind SemanticCache. Keys are always the Redis-style
+ * `code_suggestion:{language}:{framework}:{id}` so entries look the same
+ * whichever backend holds them.
+ */
+export interface CacheStore {
+  readonly backend: CacheBackend;
+  upsert(key: string, entry: IndexedEntry, ttlSeconds: number): Promise<void>;
+  search(partition: IndexPartition, embedding: number[], k: number): Promise<VectorMatch[]>;
+  get(key: string): Promise<Omit<IndexedEntry, 'embedding'> | null>;
+  getEmbedding(key: string, dimension: number): Promise<number[] | null>;
+  recordHit(key: string, timestamp: number, ttlSeconds: number): Promise<void>;
+  recordFeedback(key: string, accepted: boolean, voter: string): Promise<FeedbackVote | null>;
+  list(): Promise<ListedEntry[]>;
+  remove(keys: string[]): Promise<void>;
+  count(): Promise<number>;
+  stats(): Promise<IndexStats>;
+}
+
+/**
+ * Redis backend. Resolves the client on every call so a dropped connection
+ * surfaces as a thrown error the failover store can react to.
+ */
+export class RedisCacheStore implements CacheStore {
+  readonly backend = 'redis';
+
+  private async index() {
+    return getVectorIndex(await getRedisClient());
+  }
+
+  async upsert(key: string, entry: IndexedEntry, ttlSeconds: number): Promise<void> {
+    return (await this.index()).upsert(key, entry, ttlSeconds);
+  }
+
+  async search(partition: IndexPartition, embedding: number[], k: number): Promise<VectorMatch[]> {
+    return (await this.index()).search(partition, embedding, k);
+  }
+
+  async get(key: string): Promise<Omit<IndexedEntry, 'embedding'> | null> {
+    return (await this.index()).get(key);
+  }
+
+  async getEmbedding(key: string, dimension: number): Promise<number[] | null> {
+    return (await this.index()).getEmbedding(key, dimension);
+  }
+
+  async recordHit(key: string, timestamp: number, ttlSeconds: number): Promise<void> {
+    return (await this.index()).recordHit(key, timestamp, ttlSeconds);
+  }
+
+  async recordFeedback(key: string, accepted: boolean, voter: string): Promise<FeedbackVote | null> {
+    return (await this.index()).recordFeedback(key, accepted, voter);
+  }
+
+  async list(): Promise<ListedEntry[]> {
+    return (await this.index()).list();
+  }
+
+  async remove(keys: string[]): Promise<void> {
+    return (await this.index()).remove(keys);
+  }
+
+  async count(): Promise<number> {
+    return (await this.index()).count();
+  }
+
+  async stats(): Promise<IndexStats> {
+    return (await this.index()).stats();
+  }
+}
+
+interface MemoryEntry {
+  entry: IndexedEntry;
+  expiresAt: number;
+  // Who gave feedback on the entry, each counted once
+  voters: Set<string>;
+}
+
+/**
+ * In-process LRU backend, same idea as AICache: a Map whose insertion order
+ * doubles as recency, with per-entry TTLs swept lazily.
+ */
+export class MemoryCacheStore implements CacheStore {
+  readonly backend = 'memory';
+  private entries = new Map<string, MemoryEntry>();
+
+  constructor(private readonly maxEntries = 1000) {}
+
+  async upsert(key: string, entry: IndexedEntry, ttlSeconds: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { entry: { ...entry }, expiresAt: Date.now() + ttlSeconds * 1000, voters: new Set() });
+
+    // Evict least recently used entries once over capacity
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async search(partition: IndexPartition, embedding: number[], k: number): Promise<VectorMatch[]> {
+    const matches: VectorMatch[] = [];
+
+    for (const [key, { entry }] of this.live()) {
+      if (entry.language !== partition.language || entry.framework !== partition.framework) continue;
+      if (partition.version && entry.version !== partition.version) continue;
+      if (partition.conversation && entry.conversation !== partition.conversation) continue;
+      if (!isUsableEmbedding(entry.embedding, embedding.length)) continue;
+      matches.push({ key, similarity: calculateSimilarity(embedding, entry.embedding) });
+    }
+
+    return matches.sort((a, b) => b.similarity - a.similarity).slice(0, k);
+  }
+
+  async get(key: string): Promise<Omit<IndexedEntry, 'embedding'> | null> {
+    const stored = this.entries.get(key);
+    if (!stored || stored.expiresAt <= Date.now()) return null;
+
+    return this.summarize(stored.entry);
+  }
+
+  async getEmbedding(key: string, dimension: number): Promise<number[] | null> {
+    const stored = this.entries.get(key);
+    if (!stored || stored.expiresAt <= Date.now()) return null;
+
+    return stored.entry.embedding.length === dimension ? [...stored.entry.embedding] : null;
+  }
+
+  async recordHit(key: string, timestamp: number, ttlSeconds: number): Promise<void> {
+    const stored = this.entries.get(key);
+    if (!stored) return;
+
+    stored.entry.hitCount++;
+    stored.entry.timestamp = timestamp;
+    stored.expiresAt = Date.now() + ttlSeconds * 1000;
+
+    // Move to the most recently used position
+    this.entries.delete(key);
+    this.entries.set(key, stored);
+  }
+
+  async recordFeedback(key: string, accepted: boolean, voter: string): Promise<FeedbackVote | null> {
+    const stored = this.entries.get(key);
+    if (!stored || stored.expiresAt <= Date.now()) return null;
+
+    const counted = !stored.voters.has(voter);
+    if (counted) {
+      stored.voters.add(voter);
+      if (accepted) {
+        stored.entry.accepts++;
+      } else {
+        stored.entry.rejects++;
+      }
+    }
+    return { accepts: stored.entry.accepts, rejects: stored.entry.rejects, counted };
+  }
+
+  async list(): Promise<ListedEntry[]> {
+    return [...this.live()].map(([key, { entry }]) => ({ ...this.summarize(entry), key }));
+  }
+
+  async remove(keys: string[]): Promise<void> {
+    for (const key of keys) {
+      this.entries.delete(key);
+    }
+  }
+
+  async count(): Promise<number> {
+    return [...this.live()].length;
+  }
+
+  async stats(): Promise<IndexStats> {
+    const stats: IndexStats = {
+      totalEntries: 0,
+      entriesByLanguage: {},
+      oldestEntry: 0,
+      newestEntry: 0,
+    };
+
+    for (const [, { entry }] of this.live()) {
+      stats.totalEntries++;
+      stats.entriesByLanguage[entry.language] = (stats.entriesByLanguage[entry.language] || 0) + 1;
+
+      if (!stats.oldestEntry || entry.timestamp < stats.oldestEntry) {
+        stats.oldestEntry = entry.timestamp;
+      }
+      if (entry.timestamp > stats.newestEntry) {
+        stats.newestEntry = entry.timestamp;
+      }
+    }
+
+    return stats;
+  }
+
+  private summarize(entry: IndexedEntry): Omit<IndexedEntry, 'embedding'> {
+    return Object.fromEntries(
+      Object.entries(entry).filter(([field]) => field !== 'embedding')
+    ) as Omit<IndexedEntry, 'embedding'>;
+  }
+
+  // Yields unexpired entries, dropping expired ones as it goes
+  private *live(): Generator<[string, MemoryEntry]> {
+    const now = Date.now();
+    for (const [key, stored] of this.entries) {
+      if (stored.expiresAt <= now) {
+        this.entries.delete(key);
+        continue;
+      }
+      yield [key, stored];
+    }
+  }
+}
+
+/**
+ * Uses Redis while it is reachable and switches to the in-memory store as
+ * soon as a Redis call fails. Redis is re-probed after RETRY_INTERVAL_MS.
+ */
+export class FailoverCacheStore implements CacheStore {
+  private readonly RETRY_INTERVAL_MS = 30 * 1000;
+  private redisDownSince: number | null = null;
+
+  constructor(
+    private readonly primary: CacheStore,
+    private readonly fallback: CacheStore
+  ) {}
+
+  get backend(): CacheBackend {
+    return this.redisDownSince === null ? this.primary.backend : this.fallback.backend;
+  }
+
+  private async run<T>(operation: (store: CacheStore) => Promise<T>): Promise<T> {
+    const now = Date.now();
+    if (this.redisDownSince !== null && now - this.redisDownSince < this.RETRY_INTERVAL_MS) {
+      return operation(this.fallback);
+    }
+
+    try {
+      const result = await operation(this.primary);
+      if (this.redisDownSince !== null) {
+        console.log(`✅ ${this.primary.backend} cache backend restored`);
+        this.redisDownSince = null;
+      }
+      return result;
+    } catch (error) {
+      if (this.redisDownSince === null) {
+        console.warn(`⚠️ ${this.primary.backend} cache backend unavailable, using ${this.fallback.backend}:`, error);
+      }
+      this.redisDownSince = now;
+      return operation(this.fallback);
+    }
+  }
+
+  upsert(key: string, entry: IndexedEntry, ttlSeconds: number): Promise<void> {
+    return this.run((store) => store.upsert(key, entry, ttlSeconds));
+  }
+
+  search(partition: IndexPartition, embedding: number[], k: number): Promise<VectorMatch[]> {
+    return this.run((store) => store.search(partition, embedding, k));
+  }
+
+  get(key: string): Promise<Omit<IndexedEntry, 'embedding'> | null> {
+    return this.run((store) => store.get(key));
+  }
+
+  getEmbedding(key: string, dimension: number): Promise<number[] | null> {
+    return this.run((store) => store.getEmbedding(key, dimension));
+  }
+
+  recordHit(key: string, timestamp: number, ttlSeconds: number): Promise<void> {
+    return this.run((store) => store.recordHit(key, timestamp, ttlSeconds));
+  }
+
+  recordFeedback(key: string, accepted: boolean, voter: string): Promise<FeedbackVote | null> {
+    return this.run((store) => store.recordFeedback(key, accepted, voter));
+  }
+
+  list(): Promise<ListedEntry[]> {
+    return this.run((store) => store.list());
+  }
+
+  remove(keys: string[]): Promise<void> {
+    return this.run((store) => store.remove(keys));
+  }
+
+  count(): Promise<number> {
+    return this.run((store) => store.count());
+  }
+
+  stats(): Promise<IndexStats> {
+    return this.run((store) => store.stats());
+  }
+}
+
+/**
+ * Build the store selected by CACHE_BACKEND:
+ * - `redis` (default): Redis with automatic failover to memory
+ * - `memory`: in-process LRU only, no Redis required
+ */
+export function createCacheStore(backend = process.env.CACHE_BACKEND): CacheStore {
+  const maxEntries = Number(process.env.MEMORY_CACHE_MAX_ENTRIES) || 1000;
+
+  if (backend === 'memory') {
+    return new MemoryCacheStore(maxEntries);
+  }
+
+  return new FailoverCacheStore(new RedisCacheStore(), new MemoryCacheStore(maxEntries));
+}
@@ -0,0 +1,45 @@
+import { createHash } from 'crypto';
+import { GENERATION_MODEL, modelProvider } from './model-providers';
+
+// Ollama models keep their bare name so entries cached before providers existed stay current
+const STAMPED_MODEL = modelProvider.id === 'ollama' ? GENERATION_MODEL : `${modelProvider.id}:${GENERATION_MODEL}`;
+
+/**
+ * What produced a cached answer. Bump a promptVersion whenever the matching
+ * prompt builder changes so answers from the old template stop being served.
+ */
+export interface GenerationStamp {
+  model: string;
+  promptVersion: string;
+}
+
+export const CODE_GENERATION: GenerationStamp = { model: STAMPED_MODEL, promptVersion: 'code-v2' };
+export const CHAT_GENERATION: GenerationStamp = { model: STAMPED_MODEL, promptVersion: 'chat-v1' };
+
+export interface CacheVersion extends GenerationStamp {
+  embeddingModel: string;
+}
+
+/**
+ * Short, tag-safe id for a cache version. Lookups only match entries that
+ * carry the same id.
+ */
+export function versionTag({ model, promptVersion, embeddingModel }: CacheVersion): string {
+  return createHash('sha256')
+    .update(`${model}\n${promptVersion}\n${embeddingModel}`)
+    .digest('hex')
+    .slice(0, 12);
+}
+
+// The generation new entries in this partition are produced with today
+export function currentGeneration(language: string): GenerationStamp {
+  return language === 'Chat' ? CHAT_GENERATION : CODE_GENERATION;
+}
+
+// Entries cached before they were stamped were produced with these
+export function legacyGeneration(language: string): GenerationStamp {
+  return {
+    model: 'codellama:latest',
+    promptVersion: language === 'Chat' ? 'chat-v1' : 'code-v1',
+  };
+}
@@ -0,0 +1,119 @@
+import { randomUUID } from 'crypto';
+import { getRedisClient, getRedisSubscriber, redisEnabled, RedisUnavailableError } from './redis-client';
+import { INSTANCE_ID } from './cache-invalidation';
+
+/**
+ * One completion at a time per editor session. Each keystroke pause asks for
+ * a new completion; starting one cancels the session's previous request, on
+ * this instance directly and on the others through Redis pub/sub, so the model
+ * is not kept busy with completions for code the user has typed past.
+ */
+
+const CANCEL_CHANNEL = 'code_suggestion:session-cancel';
+
+// A session with no request for this long is forgotten
+const SESSION_IDLE_MS = 2 * 60 * 1000;
+
+interface SessionCancelMessage {
+  session: string;
+  // The request that superseded the others
+  request: string;
+  origin: string;
+}
+
+interface ActiveRequest {
+  id: string;
+  controller: AbortController;
+  startedAt: number;
+}
+
+export class CompletionSessions {
+  private active = new Map<string, ActiveRequest>();
+  private subscribing: Promise<void> | null = null;
+  private subscribed = false;
+
+  /**
+   * Register a new completion request for `sessionId` and cancel the one
+   * before it. The returned signal aborts when a later request of the same
+   * session arrives, here or on another instance.
+   */
+  begin(sessionId: string): AbortSignal {
+    void this.subscribe();
+    this.prune();
+
+    const request: ActiveRequest = { id: randomUUID(), controller: new AbortController(), startedAt: Date.now() };
+    this.cancel(sessionId);
+    this.active.set(sessionId, request);
+    void this.publish({ session: sessionId, request: request.id, origin: INSTANCE_ID });
+
+    return request.controller.signal;
+  }
+
+  private cancel(sessionId: string): void {
+    const previous = this.active.get(sessionId);
+    if (!previous) return;
+
+    this.active.delete(sessionId);
+    if (!previous.controller.signal.aborted) {
+      console.log(`✂️ Cancelling superseded completion for session ${sessionId.slice(0, 8)}`);
+      previous.controller.abort();
+    }
+  }
+
+  private prune(): void {
+    const cutoff = Date.now() - SESSION_IDLE_MS;
+    for (const [sessionId, request] of this.active) {
+      if (request.startedAt < cutoff) this.active.delete(sessionId);
+    }
+  }
+
+  // Best effort: without Redis, requests only reach the instance they started on
+  private async publish(message: SessionCancelMessage): Promise<void> {
+    if (!redisEnabled()) return;
+
+    try {
+      const redis = await getRedisClient();
+      await redis.publish(CANCEL_CHANNEL, JSON.stringify(message));
+    } catch (error) {
+      if (!(error instanceof RedisUnavailableError)) {
+        console.warn('⚠️ Failed to publish completion cancel:', error);
+      }
+    }
+  }
+
+  private dispatch = (raw: string): void => {
+    try {
+      const message: SessionCancelMessage = JSON.parse(raw);
+      if (message.origin === INSTANCE_ID) return;
+      // The superseding request lives on another instance, so whatever runs here is older
+      this.cancel(message.session);
+    } catch (error) {
+      console.error('Invalid completion cancel message:', error);
+    }
+  };
+
+  // Made lazily and retried on the next request if it fails
+  private async subscribe(): Promise<void> {
+    if (this.subscribed || !redisEnabled()) return;
+    if (this.subscribing) return this.subscribing;
+
+    this.subscribing = (async () => {
+      try {
+        const subscriber = await getRedisSubscriber();
+        await subscriber.subscribe(CANCEL_CHANNEL, this.dispatch);
+        subscriber.once('end', () => {
+          this.subscribed = false;
+        });
+        this.subscribed = true;
+      } catch (error) {
+        console.warn('⚠️ Completion cancel subscriber unavailable:', error);
+      } finally {
+        this.subscribing = null;
+      }
+    })();
+
+    return this.subscribing;
+  }
+}
+
+export const completionSessions = new CompletionSessions();
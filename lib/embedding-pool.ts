@@ -0,0 +1,152 @@
+import path from 'path';
+import { Worker } from 'worker_threads';
+
+/**
+ * Thrown when no usable embedding could be produced in time. Callers treat it
+ * as a cache bypass, never as a reason to fail the request.
+ */
+export class EmbeddingUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EmbeddingUnavailableError';
+  }
+}
+
+interface PendingEmbedding {
+  text: string;
+  resolve: (embedding: number[]) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+  settled: boolean;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  inFlight: Map<number, PendingEmbedding[]>;
+}
+
+type WorkerReply = { id: number; embeddings: number[][] } | { id: number; error: string };
+
+// Plain ESM so it loads outside the Next.js bundle
+const WORKER_PATH = path.join(process.cwd(), 'lib', 'embedding-worker.mjs');
+
+/**
+ * worker_threads pool for embedding generation. Concurrent requests are
+ * collected for a few milliseconds and sent to the least busy worker as one
+ * batch, so a burst of lookups costs one forward pass per worker.
+ */
+export class EmbeddingPool {
+  private workers: PoolWorker[] = [];
+  private queue: PendingEmbedding[] = [];
+  private flushTimer: NodeJS.Timeout | null = null;
+  private nextBatchId = 0;
+
+  constructor(
+    private readonly model: string,
+    private readonly size: number,
+    private readonly batchSize: number,
+    private readonly batchWindowMs: number
+  ) {}
+
+  embed(text: string, timeoutMs: number): Promise<number[]> {
+    return new Promise((resolve, reject) => {
+      const request: PendingEmbedding = {
+        text,
+        resolve,
+        reject,
+        settled: false,
+        timer: setTimeout(() => {
+          this.settle(request, new EmbeddingUnavailableError(`Embedding timed out after ${timeoutMs}ms`));
+        }, timeoutMs),
+      };
+
+      this.queue.push(request);
+      if (this.queue.length >= this.batchSize) {
+        this.flush();
+      } else if (!this.flushTimer) {
+        this.flushTimer = setTimeout(() => this.flush(), this.batchWindowMs);
+      }
+    });
+  }
+
+  private flush(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    while (this.queue.length > 0) {
+      // Requests that already timed out are not worth a forward pass
+      const batch = this.queue.splice(0, this.batchSize).filter((request) => !request.settled);
+      if (batch.length === 0) continue;
+
+      const target = this.leastBusyWorker();
+      const id = this.nextBatchId++;
+      target.inFlight.set(id, batch);
+      target.worker.postMessage({ id, texts: batch.map((request) => request.text) });
+    }
+  }
+
+  private leastBusyWorker(): PoolWorker {
+    const idle = this.workers.find((w) => w.inFlight.size === 0);
+    if (idle) return idle;
+    if (this.workers.length < this.size) return this.spawn();
+
+    return this.workers.reduce((best, candidate) =>
+      candidate.inFlight.size < best.inFlight.size ? candidate : best
+    );
+  }
+
+  private spawn(): PoolWorker {
+    const poolWorker: PoolWorker = {
+      worker: new Worker(WORKER_PATH, { workerData: { model: this.model } }),
+      inFlight: new Map(),
+    };
+
+    poolWorker.worker.on('message', (reply: WorkerReply) => {
+      const batch = poolWorker.inFlight.get(reply.id);
+      if (!batch) return;
+      poolWorker.inFlight.delete(reply.id);
+
+      batch.forEach((request, i) => {
+        if ('error' in reply) {
+          this.settle(request, new EmbeddingUnavailableError(reply.error));
+        } else {
+          this.settle(request, reply.embeddings[i]);
+        }
+      });
+    });
+
+    poolWorker.worker.on('error', (error) => {
+      console.error('Embedding worker crashed:', error);
+    });
+
+    poolWorker.worker.on('exit', (code) => {
+      // Fail whatever it was working on; the next batch spawns a replacement
+      this.workers = this.workers.filter((w) => w !== poolWorker);
+      for (const batch of poolWorker.inFlight.values()) {
+        batch.forEach((request) =>
+          this.settle(request, new EmbeddingUnavailableError(`Embedding worker exited with code ${code}`))
+        );
+      }
+      poolWorker.inFlight.clear();
+    });
+
+    // Idle workers must not keep the process alive
+    poolWorker.worker.unref();
+    this.workers.push(poolWorker);
+    return poolWorker;
+  }
+
+  private settle(request: PendingEmbedding, result: number[] | Error): void {
+    if (request.settled) return;
+    request.settled = true;
+    clearTimeout(request.timer);
+
+    if (result instanceof Error) {
+      request.reject(result);
+    } else {
+      request.resolve(result);
+    }
+  }
+}
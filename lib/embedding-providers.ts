@@ -0,0 +1,133 @@
+import { EmbeddingPool, EmbeddingUnavailableError } from './embedding-pool';
+import { createModelProvider, modelProvider, type ModelProvider } from './model-providers';
+
+/**
+ * Turns text into vectors for the semantic cache. `id` is stamped on every
+ * entry as its embedding model, so switching providers starts a new cache
+ * version instead of comparing vectors from different models.
+ */
+export interface EmbeddingProvider {
+  readonly id: string;
+  readonly dimension: number;
+  embed(text: string, timeoutMs: number): Promise<number[]>;
+}
+
+export interface EmbeddingProviderSpec {
+  description: string;
+  // Known without creating the provider, so the vector index can hold every dimension
+  dimension: number;
+  create(): EmbeddingProvider;
+}
+
+// Local transformers.js model, run in the worker pool
+class TransformersEmbeddingProvider implements EmbeddingProvider {
+  private readonly pool: EmbeddingPool;
+
+  constructor(readonly id: string, readonly dimension: number) {
+    this.pool = new EmbeddingPool(
+      id,
+      Number(process.env.EMBEDDING_WORKERS) || 1,
+      Number(process.env.EMBEDDING_BATCH_SIZE) || 16,
+      Number(process.env.EMBEDDING_BATCH_WINDOW_MS) || 5
+    );
+  }
+
+  embed(text: string, timeoutMs: number): Promise<number[]> {
+    return this.pool.embed(text, timeoutMs);
+  }
+}
+
+// Embedding model of a ModelProvider, so it talks to the same server as generation
+class ModelEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+
+  constructor(
+    private readonly provider: ModelProvider,
+    private readonly model: string,
+    readonly dimension: number
+  ) {
+    this.id = `${provider.id}:${model}`;
+  }
+
+  async embed(text: string, timeoutMs: number): Promise<number[]> {
+    try {
+      return await this.provider.embed(this.model, text, AbortSignal.timeout(timeoutMs));
+    } catch (error) {
+      const reason = error instanceof Error && error.name === 'TimeoutError'
+        ? `timed out after ${timeoutMs}ms`
+        : error instanceof Error ? error.message : String(error);
+      throw new EmbeddingUnavailableError(`${this.id} embedding ${reason}`);
+    }
+  }
+}
+
+const MODEL_EMBEDDING_MODEL = process.env.OLLAMA_EMBEDDING_MODEL || 'nomic-embed-text';
+const MOCK_EMBEDDING_DIMENSION = Number(process.env.MOCK_EMBEDDING_DIMENSION) || 384;
+// The mock provider answers with its own dimension whatever the model name
+const MODEL_EMBEDDING_DIMENSION = process.env.MODEL_PROVIDER === 'mock'
+  ? MOCK_EMBEDDING_DIMENSION
+  : Number(process.env.OLLAMA_EMBEDDING_DIMENSION) || 768;
+
+const modelEmbeddings: EmbeddingProviderSpec = {
+  description: 'MODEL_PROVIDER embeddings (OLLAMA_EMBEDDING_MODEL, default nomic-embed-text)',
+  dimension: MODEL_EMBEDDING_DIMENSION,
+  create: () => new ModelEmbeddingProvider(modelProvider, MODEL_EMBEDDING_MODEL, MODEL_EMBEDDING_DIMENSION),
+};
+
+const providers = new Map<string, EmbeddingProviderSpec>([
+  [
+    'minilm',
+    {
+      description: 'all-MiniLM-L6-v2 via transformers.js, small general-purpose model',
+      dimension: 384,
+      create: () => new TransformersEmbeddingProvider('Xenova/all-MiniLM-L6-v2', 384),
+    },
+  ],
+  [
+    'jina-code',
+    {
+      description: 'jina-embeddings-v2-base-code via transformers.js, trained on code',
+      dimension: 768,
+      create: () => new TransformersEmbeddingProvider('jinaai/jina-embeddings-v2-base-code', 768),
+    },
+  ],
+  ['model', modelEmbeddings],
+  // Name from before embeddings went through the model provider
+  ['ollama', modelEmbeddings],
+  [
+    'mock',
+    {
+      description: 'Deterministic vectors hashed from the text, offline (MOCK_EMBEDDING_DIMENSION)',
+      dimension: MOCK_EMBEDDING_DIMENSION,
+      create: () => new ModelEmbeddingProvider(createModelProvider('mock'), 'hash', MOCK_EMBEDDING_DIMENSION),
+    },
+  ],
+]);
+
+export const DEFAULT_EMBEDDING_PROVIDER = 'minilm';
+
+export function registerEmbeddingProvider(name: string, spec: EmbeddingProviderSpec): void {
+  providers.set(name, spec);
+}
+
+export function listEmbeddingProviders(): (Omit<EmbeddingProviderSpec, 'create'> & { name: string })[] {
+  return [...providers].map(([name, { description, dimension }]) => ({ name, description, dimension }));
+}
+
+// Every dimension a registered provider can produce, ascending
+export function knownEmbeddingDimensions(): number[] {
+  return [...new Set([...providers.values()].map((spec) => spec.dimension))].sort((a, b) => a - b);
+}
+
+/**
+ * Create the provider named by EMBEDDING_PROVIDER. An unknown name falls back
+ * to the default so a typo cannot take the cache down.
+ */
+export function createEmbeddingProvider(name = process.env.EMBEDDING_PROVIDER || DEFAULT_EMBEDDING_PROVIDER): EmbeddingProvider {
+  const spec = providers.get(name);
+  if (!spec) {
+    console.error(`Unknown embedding provider "${name}", using ${DEFAULT_EMBEDDING_PROVIDER}`);
+    return providers.get(DEFAULT_EMBEDDING_PROVIDER)!.create();
+  }
+  return spec.create();
+}
@@ -1,27 +1,61 @@
-import { pipeline } from '@xenova/transformers';
+import { createHash } from 'crypto';
+import { EmbeddingUnavailableError } from './embedding-pool';
+import { createEmbeddingProvider, type EmbeddingProvider } from './embedding-providers';
 
-// Singleton for the embedding model
-let embedder: any = null;
+// Selected by EMBEDDING_PROVIDER, see lib/embedding-providers.ts
+export const embeddingProvider = createEmbeddingProvider();
 
-export async function getEmbedder() {
-  if (!embedder) {
-    console.log('🧠 Loading embedding model...');
-    // Use a lightweight model optimized for code
-    embedder = await pipeline('feature-extraction', 'Xenova/all-MiniLM-L6-v2');
-    console.log('✅ Embedding model loaded');
+// Stamped on every cache entry; entries embedded by another model never match
+export const EMBEDDING_MODEL = embeddingProvider.id;
+
+// Output size of EMBEDDING_MODEL, recorded on every entry it embeds
+export const EMBEDDING_DIMENSION = embeddingProvider.dimension;
+
+const EMBEDDING_TIMEOUT_MS = Number(process.env.EMBEDDING_TIMEOUT_MS) || 2000;
+
+// Loading the model on first use can take far longer than a lookup may wait
+const WARM_UP_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * A zero, wrong-sized or non-finite vector matches nothing meaningfully and
+ * must never be cached or compared
+ */
+export function isUsableEmbedding(embedding: number[], dimension = EMBEDDING_DIMENSION): boolean {
+  if (!Array.isArray(embedding) || embedding.length !== dimension) return false;
+
+  let norm = 0;
+  for (const value of embedding) {
+    if (!Number.isFinite(value)) return false;
+    norm += value * value;
   }
-  return embedder;
+  return norm > 0;
 }
 
-export async function generateEmbedding(text: string): Promise<number[]> {
+/**
+ * Embed `text` with the configured provider (or another one). Throws EmbeddingUnavailableError on
+ * timeout or failure so callers bypass the cache instead of using a bad vector.
+ */
+export async function generateEmbedding(
+  text: string,
+  timeoutMs = EMBEDDING_TIMEOUT_MS,
+  provider: EmbeddingProvider = embeddingProvider
+): Promise<number[]> {
+  const embedding = await provider.embed(text, timeoutMs);
+  if (!isUsableEmbedding(embedding, provider.dimension)) {
+    throw new EmbeddingUnavailableError('Embedding model returned an unusable vector');
+  }
+  return embedding;
+}
+
+// Load the embedding model before the first request needs it
+export async function warmEmbeddings(): Promise<void> {
+  const startTime = Date.now();
+  console.log(`🧠 Loading embedding model ${EMBEDDING_MODEL}...`);
   try {
-    const model = await getEmbedder();
-    const output = await model(text, { pooling: 'mean', normalize: true });
-    return Array.from(output.data);
+    await generateEmbedding('warm up', WARM_UP_TIMEOUT_MS);
+    console.log(`✅ Embedding model loaded in ${Date.now() - startTime}ms`);
   } catch (error) {
-    console.error('Error generating embedding:', error);
-    // Return zero vector as fallback
-    return new Array(384).fill(0);
+    console.error('Failed to warm embedding model:', error);
   }
 }
 
@@ -72,8 +106,51 @@ export function createChatContext(
   return context;
 }
 
+/**
+ * Digest of everything a chat answer depends on besides the current message:
+ * the history window sent to the model and the contents of attached files.
+ * Only entries with the same digest can answer each other.
+ */
+export function digestConversation(
+  history: { role: string; content: string }[],
+  attachments: string[]
+): string {
+  const hash = createHash('sha256');
+  for (const msg of history) {
+    hash.update(`${msg.role}\n${msg.content.replace(/\s+/g, ' ').trim()}\n`);
+  }
+  for (const content of attachments) {
+    hash.update(`attachment\n${content.replace(/\r\n?/g, '\n')}\n`);
+  }
+  return hash.digest('hex').slice(0, 16);
+}
+
+/**
+ * Deterministic hash of a context built by createCodeContext/createChatContext.
+ * Line endings and trailing whitespace are normalized so cosmetic differences
+ * still dedupe into the same cache entry. `version` keeps entries from
+ * different cache versions apart, `conversation` chats with different history.
+ */
+export function hashContext(context: string, suggestionType: string, version = '', conversation = ''): string {
+  const normalized = context
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map(line => line.trimEnd())
+    .join('\n')
+    .trim();
+  const scope = conversation ? `${version}\n${conversation}` : version;
+
+  return createHash('sha256')
+    .update(`${scope}\n${suggestionType}\n${normalized}`)
+    .digest('hex')
+    .slice(0, 32);
+}
+
 export function calculateSimilarity(embedding1: number[], embedding2: number[]): number {
-  if (embedding1.length !== embedding2.length) return 0;
+  if (embedding1.length !== embedding2.length) {
+    console.warn(`⚠️ Comparing embeddings of different dimensions (${embedding1.length} vs ${embedding2.length})`);
+    return 0;
+  }
   
   let dotProduct = 0;
   let norm1 = 0;
@@ -0,0 +1,32 @@
+// Runs the transformers.js pipeline off the request thread. Receives batches
+// of texts from lib/embedding-pool.ts and answers with one embedding per text.
+import { parentPort, workerData } from 'worker_threads';
+import { pipeline } from '@xenova/transformers';
+
+let embedder = null;
+
+function getEmbedder() {
+  if (!embedder) {
+    embedder = pipeline('feature-extraction', workerData.model).catch((error) => {
+      // Retry the download/load on the next batch
+      embedder = null;
+      throw error;
+    });
+  }
+  return embedder;
+}
+
+parentPort.on('message', async ({ id, texts }) => {
+  try {
+    const model = await getEmbedder();
+    const output = await model(texts, { pooling: 'mean', normalize: true });
+    const dimension = output.dims[output.dims.length - 1];
+
+    const embeddings = texts.map((_, i) =>
+      Array.from(output.data.subarray(i * dimension, (i + 1) * dimension))
+    );
+    parentPort.postMessage({ id, embeddings });
+  } catch (error) {
+    parentPort.postMessage({ id, error: error instanceof Error ? error.message : String(error) });
+  }
+});
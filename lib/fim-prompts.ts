@@ -0,0 +1,91 @@
+/**
+ * Fill-in-the-middle prompt format of a model family. The model sees the code
+ * before and after the cursor and generates what goes in between.
+ */
+export interface FimFormat {
+  family: string;
+  // Matched against the model name, e.g. `codellama:7b-code` or `deepseek-coder-6.7b-base`
+  models: RegExp;
+  build(prefix: string, suffix: string): string;
+  // Tokens the model emits when the middle is done
+  stop: string[];
+}
+
+const FIM_FORMATS: FimFormat[] = [
+  {
+    family: 'codellama',
+    models: /code-?llama/i,
+    build: (prefix, suffix) => `<PRE> ${prefix} <SUF>${suffix} <MID>`,
+    stop: ['<EOT>'],
+  },
+  {
+    family: 'deepseek',
+    models: /deepseek-coder/i,
+    build: (prefix, suffix) => `<｜fim▁begin｜>${prefix}<｜fim▁hole｜>${suffix}<｜fim▁end｜>`,
+    stop: ['<｜end▁of▁sentence｜>', '<|EOT|>'],
+  },
+  {
+    family: 'starcoder',
+    models: /starcoder|santacoder|stable-code/i,
+    build: (prefix, suffix) => `<fim_prefix>${prefix}<fim_suffix>${suffix}<fim_middle>`,
+    stop: ['<|endoftext|>', '<file_sep>'],
+  },
+  {
+    family: 'qwen',
+    models: /qwen.*coder|codegemma/i,
+    build: (prefix, suffix) => `<|fim_prefix|>${prefix}<|fim_suffix|>${suffix}<|fim_middle|>`,
+    stop: ['<|endoftext|>', '<|file_sep|>', '<|file_separator|>', '<|fim_pad|>'],
+  },
+];
+
+// Every FIM control token above; models sometimes echo them into the answer
+const FIM_TOKENS = /<(?:PRE|SUF|MID|EOT)>|<\|?(?:fim_(?:prefix|suffix|middle|pad)|file_sep(?:arator)?|endoftext|EOT)\|?>|<｜(?:fim▁(?:begin|hole|end)|end▁of▁sentence)｜>/g;
+
+/**
+ * FIM format for a model, or null when its family has none we know. FIM_FORMAT
+ * forces a family by name, and `none` turns infilling off.
+ */
+export function fimFormatFor(model: string): FimFormat | null {
+  const forced = process.env.FIM_FORMAT;
+  if (forced) {
+    return FIM_FORMATS.find((format) => format.family === forced) ?? null;
+  }
+  return FIM_FORMATS.find((format) => format.models.test(model)) ?? null;
+}
+
+export function stripFimTokens(text: string): string {
+  return text.replace(FIM_TOKENS, '');
+}
+
+function bracketBalance(text: string): number {
+  let balance = 0;
+  for (const char of text) {
+    if ('([{'.includes(char)) balance++;
+    else if (')]}'.includes(char)) balance--;
+  }
+  return balance;
+}
+
+/**
+ * Cut a completion where it starts repeating the code after the cursor, so
+ * accepting it does not duplicate that code. Whitespace is ignored when
+ * comparing. A closing bracket that matches one the completion opened itself
+ * is kept: `foo()` typed inside `log(|)` must not lose its `)`.
+ */
+export function trimSuffixOverlap(completion: string, suffix: string): string {
+  const following = suffix.replace(/\s+/g, '');
+  if (!following) return completion;
+
+  const balance = Math.abs(bracketBalance(completion));
+  for (let start = 0; start < completion.length; start++) {
+    if (/\s/.test(completion[start])) continue;
+
+    const tail = completion.slice(start).replace(/\s+/g, '');
+    if (tail.length > following.length || !following.startsWith(tail)) continue;
+
+    const kept = completion.slice(0, start);
+    if (Math.abs(bracketBalance(kept)) > balance) continue;
+    return kept.trimEnd();
+  }
+  return completion;
+}
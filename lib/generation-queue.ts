@@ -0,0 +1,108 @@
+/**
+ * Bounded concurrency in front of the model server. At most MODEL_CONCURRENCY
+ * generations run at once on this instance; later ones wait in arrival order
+ * and hear their place in line as it changes, up to MODEL_QUEUE_LIMIT waiters.
+ * Beyond that the queue refuses work instead of letting latency grow without end.
+ */
+
+export interface QueueOptions {
+  signal?: AbortSignal;
+  // Called with the 1-based place in line on entering the queue and whenever it moves up
+  onQueue?: (position: number) => void;
+}
+
+export class QueueFullError extends Error {
+  constructor(readonly retryAfterSeconds: number) {
+    super('The model is busy with other requests. Try again shortly.');
+    this.name = 'QueueFullError';
+  }
+}
+
+interface Waiter {
+  start: () => void;
+  onQueue?: (position: number) => void;
+}
+
+// A rough guess at how long one generation holds a slot, for Retry-After
+const SLOT_SECONDS = 5;
+
+export class GenerationQueue {
+  private running = 0;
+  private waiting: Waiter[] = [];
+
+  constructor(
+    readonly concurrency: number,
+    readonly limit: number
+  ) {}
+
+  get isFull(): boolean {
+    return this.running >= this.concurrency && this.waiting.length >= this.limit;
+  }
+
+  get retryAfterSeconds(): number {
+    return Math.max(1, Math.ceil(((this.waiting.length + 1) / this.concurrency) * SLOT_SECONDS));
+  }
+
+  /**
+   * Wait for a free slot. Resolves with the function that gives the slot back;
+   * rejects with QueueFullError when the line is full and with the abort
+   * reason when `signal` fires while waiting.
+   */
+  async acquire(options: QueueOptions = {}): Promise<() => void> {
+    options.signal?.throwIfAborted();
+
+    if (this.running < this.concurrency && this.waiting.length === 0) {
+      this.running++;
+      return this.releaser();
+    }
+    if (this.waiting.length >= this.limit) {
+      throw new QueueFullError(this.retryAfterSeconds);
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        this.waiting = this.waiting.filter((entry) => entry !== waiter);
+        this.announce();
+        reject(options.signal?.reason);
+      };
+      const waiter: Waiter = {
+        start: () => {
+          options.signal?.removeEventListener('abort', onAbort);
+          resolve(this.releaser());
+        },
+        onQueue: options.onQueue,
+      };
+
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+      this.waiting.push(waiter);
+      waiter.onQueue?.(this.waiting.length);
+    });
+  }
+
+  // Slots are given back once, however often the returned function is called
+  private releaser(): () => void {
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+
+      const next = this.waiting.shift();
+      if (next) {
+        // The slot passes straight to the next in line
+        next.start();
+        this.announce();
+      } else {
+        this.running--;
+      }
+    };
+  }
+
+  private announce(): void {
+    this.waiting.forEach((waiter, index) => waiter.onQueue?.(index + 1));
+  }
+}
+
+export const generationQueue = new GenerationQueue(
+  Number(process.env.MODEL_CONCURRENCY) || 2,
+  Number(process.env.MODEL_QUEUE_LIMIT) || 20
+);
@@ -0,0 +1,82 @@
+// Per-process exact-match LRU that sits in front of the semantic (L2) store
+interface L1Entry {
+  suggestion: string;
+  l2Key: string;
+  expiresAt: number;
+}
+
+export class L1Cache {
+  private entries = new Map<string, L1Entry>();
+  // L2 key -> L1 keys that were filled from it, for invalidation
+  private byL2Key = new Map<string, Set<string>>();
+
+  constructor(
+    private readonly maxEntries = 500,
+    private readonly ttlMs = 60 * 1000
+  ) {}
+
+  get(key: string): { suggestion: string; l2Key: string } | null {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    if (entry.expiresAt <= Date.now()) {
+      this.delete(key);
+      return null;
+    }
+
+    // Move to the most recently used position
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    return { suggestion: entry.suggestion, l2Key: entry.l2Key };
+  }
+
+  set(key: string, suggestion: string, l2Key: string): void {
+    this.delete(key);
+    this.entries.set(key, { suggestion, l2Key, expiresAt: Date.now() + this.ttlMs });
+
+    const linked = this.byL2Key.get(l2Key) ?? new Set<string>();
+    linked.add(key);
+    this.byL2Key.set(l2Key, linked);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.delete(oldest);
+    }
+  }
+
+  /**
+   * Drop every L1 entry that was filled from one of the given L2 keys
+   */
+  evictL2Keys(l2Keys: string[]): number {
+    let evicted = 0;
+    for (const l2Key of l2Keys) {
+      for (const key of this.byL2Key.get(l2Key) ?? []) {
+        this.entries.delete(key);
+        evicted++;
+      }
+      this.byL2Key.delete(l2Key);
+    }
+    return evicted;
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.byL2Key.clear();
+  }
+
+  size(): number {
+    return this.entries.size;
+  }
+
+  private delete(key: string): void {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+
+    this.entries.delete(key);
+    const linked = this.byL2Key.get(entry.l2Key);
+    linked?.delete(key);
+    if (linked?.size === 0) this.byL2Key.delete(entry.l2Key);
+  }
+}
@@ -0,0 +1,35 @@
+// Identifiers, numbers and string literals: the tokens a completion usually hinges on
+const TOKEN_PATTERN = /[A-Za-z_$][\w$]*|\d+(?:\.\d+)?|"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|`(?:[^`\\]|\\.)*`/g;
+
+export function lexicalTokens(text: string): Set<string> {
+  return new Set(text.match(TOKEN_PATTERN) ?? []);
+}
+
+/**
+ * Token-level Jaccard similarity. Two lines without any tokens (blank lines,
+ * lone braces) count as identical.
+ */
+export function jaccardSimilarity(a: string, b: string): number {
+  const left = lexicalTokens(a);
+  const right = lexicalTokens(b);
+  if (left.size === 0 && right.size === 0) return 1;
+
+  let shared = 0;
+  for (const token of left) {
+    if (right.has(token)) shared++;
+  }
+  return shared / (left.size + right.size - shared);
+}
+
+// The parts of a file around the cursor that lexical matching compares
+export function cursorLines(
+  fileContent: string,
+  cursorLine: number,
+  cursorColumn: number
+): { previousLine: string; linePrefix: string } {
+  const lines = fileContent.split('\n');
+  return {
+    previousLine: lines[cursorLine - 1] ?? '',
+    linePrefix: (lines[cursorLine] ?? '').slice(0, cursorColumn),
+  };
+}
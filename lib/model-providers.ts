@@ -0,0 +1,390 @@
+import { createHash } from 'crypto';
+import { generationQueue, type GenerationQueue } from './generation-queue';
+
+/**
+ * Sampling settings in provider-neutral terms. `contextLength`, `topK` and
+ * `repeatPenalty` only reach Ollama; OpenAI-compatible servers get the rest.
+ */
+export interface GenerationOptions {
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  maxTokens?: number;
+  contextLength?: number;
+  repeatPenalty?: number;
+  seed?: number;
+  stop?: string[];
+  // Send the prompt verbatim, e.g. for FIM tokens. Only Ollama wraps prompts
+  // in a template otherwise; OpenAI-style /completions never does.
+  raw?: boolean;
+  signal?: AbortSignal;
+  // Place in line while waiting for a free model slot, see GenerationQueue
+  onQueue?: (position: number) => void;
+}
+
+// Token counts as reported by the model server
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface Completion {
+  text: string;
+  // `stop` for a natural end, `length` when maxTokens cut it off
+  finishReason: string;
+  // Missing when the server does not report it
+  usage?: TokenUsage;
+}
+
+/**
+ * A piece of a streamed completion. The last one has `done: true`; a stream
+ * that ends without it was broken off by the server.
+ */
+export interface CompletionChunk {
+  text: string;
+  done: boolean;
+  finishReason?: string;
+  // On the last chunk, when the server reports it
+  usage?: TokenUsage;
+}
+
+export interface ModelProvider {
+  readonly id: string;
+  complete(model: string, prompt: string, options?: GenerationOptions): Promise<Completion>;
+  stream(model: string, prompt: string, options?: GenerationOptions): AsyncIterable<CompletionChunk>;
+  embed(model: string, text: string, signal?: AbortSignal): Promise<number[]>;
+}
+
+export class ModelProviderError extends Error {
+  constructor(message: string, readonly status?: number) {
+    super(message);
+    this.name = 'ModelProviderError';
+  }
+}
+
+async function post(url: string, body: unknown, headers: Record<string, string>, signal?: AbortSignal): Promise<Response> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  if (!response.ok) {
+    throw new ModelProviderError(`HTTP error! status: ${response.status}`, response.status);
+  }
+  return response;
+}
+
+// Lines of a streamed response body as they arrive
+async function* readLines(response: Response): AsyncGenerator<string> {
+  const reader = response.body?.getReader();
+  if (!reader) {
+    throw new ModelProviderError('No reader available');
+  }
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    for (const line of lines) {
+      if (line.trim()) yield line;
+    }
+  }
+  if (buffer.trim()) yield buffer;
+}
+
+// Ollama reports counts on its final response; cached prompts may leave out prompt_eval_count
+function ollamaUsage(data: { prompt_eval_count?: number; eval_count?: number }): TokenUsage | undefined {
+  if (data.eval_count === undefined) return undefined;
+  return { promptTokens: data.prompt_eval_count ?? 0, completionTokens: data.eval_count };
+}
+
+// Ollama's native API: /api/generate streams NDJSON
+class OllamaModelProvider implements ModelProvider {
+  readonly id = 'ollama';
+
+  constructor(private readonly baseUrl: string) {}
+
+  private options(options: GenerationOptions) {
+    return {
+      temperature: options.temperature,
+      top_p: options.topP,
+      top_k: options.topK,
+      num_predict: options.maxTokens,
+      num_ctx: options.contextLength,
+      repeat_penalty: options.repeatPenalty,
+      seed: options.seed,
+      stop: options.stop,
+    };
+  }
+
+  async complete(model: string, prompt: string, options: GenerationOptions = {}): Promise<Completion> {
+    const response = await post(
+      `${this.baseUrl}/api/generate`,
+      { model, prompt, stream: false, raw: options.raw, options: this.options(options) },
+      {},
+      options.signal
+    );
+    const data = await response.json();
+    return { text: data.response ?? '', finishReason: data.done_reason ?? 'stop', usage: ollamaUsage(data) };
+  }
+
+  async *stream(model: string, prompt: string, options: GenerationOptions = {}): AsyncGenerator<CompletionChunk> {
+    const response = await post(
+      `${this.baseUrl}/api/generate`,
+      { model, prompt, stream: true, raw: options.raw, options: this.options(options) },
+      {},
+      options.signal
+    );
+
+    for await (const line of readLines(response)) {
+      let data;
+      try {
+        data = JSON.parse(line);
+      } catch {
+        console.warn('Failed to parse Ollama response line:', line);
+        continue;
+      }
+
+      if (data.error) {
+        throw new ModelProviderError(data.error);
+      }
+      yield {
+        text: data.response ?? '',
+        done: Boolean(data.done),
+        finishReason: data.done_reason,
+        usage: data.done ? ollamaUsage(data) : undefined,
+      };
+      if (data.done) return;
+    }
+  }
+
+  async embed(model: string, text: string, signal?: AbortSignal): Promise<number[]> {
+    const response = await post(`${this.baseUrl}/api/embeddings`, { model, prompt: text }, {}, signal);
+    const { embedding } = await response.json();
+    return embedding;
+  }
+}
+
+function openAIUsage(usage?: { prompt_tokens?: number; completion_tokens?: number }): TokenUsage | undefined {
+  if (usage?.completion_tokens === undefined) return undefined;
+  return { promptTokens: usage.prompt_tokens ?? 0, completionTokens: usage.completion_tokens };
+}
+
+// OpenAI-style /v1 API as served by OpenAI, vLLM, llama.cpp's server and others
+class OpenAICompatibleModelProvider implements ModelProvider {
+  readonly id = 'openai';
+
+  constructor(
+    private readonly baseUrl: string,
+    private readonly apiKey: string | undefined
+  ) {}
+
+  private headers(): Record<string, string> {
+    return this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {};
+  }
+
+  private body(model: string, prompt: string, options: GenerationOptions, stream: boolean) {
+    return {
+      model,
+      prompt,
+      stream,
+      temperature: options.temperature,
+      top_p: options.topP,
+      max_tokens: options.maxTokens,
+      seed: options.seed,
+      stop: options.stop,
+      // Ask for a final chunk with token counts; servers that do not know it ignore it
+      stream_options: stream ? { include_usage: true } : undefined,
+    };
+  }
+
+  async complete(model: string, prompt: string, options: GenerationOptions = {}): Promise<Completion> {
+    const response = await post(
+      `${this.baseUrl}/completions`,
+      this.body(model, prompt, options, false),
+      this.headers(),
+      options.signal
+    );
+    const data = await response.json();
+    const choice = data.choices?.[0];
+    return { text: choice?.text ?? '', finishReason: choice?.finish_reason ?? 'stop', usage: openAIUsage(data.usage) };
+  }
+
+  async *stream(model: string, prompt: string, options: GenerationOptions = {}): AsyncGenerator<CompletionChunk> {
+    const response = await post(
+      `${this.baseUrl}/completions`,
+      this.body(model, prompt, options, true),
+      this.headers(),
+      options.signal
+    );
+
+    let finishReason: string | undefined;
+    let usage: TokenUsage | undefined;
+    for await (const line of readLines(response)) {
+      if (!line.startsWith('data:')) continue;
+
+      const payload = line.slice(5).trim();
+      if (payload === '[DONE]') {
+        yield { text: '', done: true, finishReason: finishReason ?? 'stop', usage };
+        return;
+      }
+
+      let data;
+      try {
+        data = JSON.parse(payload);
+      } catch {
+        console.warn('Failed to parse completion stream event:', payload);
+        continue;
+      }
+
+      const choice = data.choices?.[0];
+      finishReason = choice?.finish_reason ?? finishReason;
+      // The usage chunk comes last, with no choices
+      usage = openAIUsage(data.usage) ?? usage;
+      if (choice?.text) yield { text: choice.text, done: false };
+    }
+  }
+
+  async embed(model: string, text: string, signal?: AbortSignal): Promise<number[]> {
+    const response = await post(`${this.baseUrl}/embeddings`, { model, input: text }, this.headers(), signal);
+    const data = await response.json();
+    return data.data?.[0]?.embedding ?? [];
+  }
+}
+
+/**
+ * Deterministic stand-in for tests and demos without a model server. The
+ * answer is a comment derived from the prompt (or MOCK_MODEL_RESPONSE), so it
+ * is valid code in any JS/TS position and the same prompt always gets the
+ * same answer.
+ */
+class MockModelProvider implements ModelProvider {
+  readonly id = 'mock';
+
+  constructor(
+    private readonly response: string | undefined,
+    private readonly dimension: number,
+    // Pause between streamed words, to watch streaming and cancellation work
+    private readonly chunkDelayMs: number
+  ) {}
+
+  private answer(model: string, prompt: string): string {
+    if (this.response !== undefined) return this.response;
+    const digest = createHash('sha256').update(`${model}\n${prompt}`).digest('hex').slice(0, 12);
+    return `/* mock ${model} ${digest} */`;
+  }
+
+  async complete(model: string, prompt: string): Promise<Completion> {
+    return { text: this.answer(model, prompt), finishReason: 'stop' };
+  }
+
+  async *stream(model: string, prompt: string, options: GenerationOptions = {}): AsyncGenerator<CompletionChunk> {
+    for (const word of this.answer(model, prompt).split(/(?<= )/)) {
+      if (this.chunkDelayMs > 0) {
+        await new Promise((resolve) => setTimeout(resolve, this.chunkDelayMs));
+      }
+      options.signal?.throwIfAborted();
+      yield { text: word, done: false };
+    }
+    yield { text: '', done: true, finishReason: 'stop' };
+  }
+
+  async embed(model: string, text: string, signal?: AbortSignal): Promise<number[]> {
+    signal?.throwIfAborted();
+    // Unit vector seeded by the text, so equal texts embed identically
+    const values: number[] = [];
+    for (let block = 0; values.length < this.dimension; block++) {
+      const digest = createHash('sha256').update(`${block}\n${model}\n${text}`).digest();
+      for (let i = 0; i < digest.length && values.length < this.dimension; i++) {
+        values.push(digest[i] / 127.5 - 1);
+      }
+    }
+    const norm = Math.sqrt(values.reduce((sum, value) => sum + value * value, 0)) || 1;
+    return values.map((value) => value / norm);
+  }
+}
+
+/**
+ * Runs generations through the concurrency queue so a burst of requests waits
+ * its turn instead of piling onto the model server. A stream holds its slot
+ * until it is read to the end or abandoned. Embeddings are short and sit on
+ * the cache lookup path, so they skip the line.
+ */
+class QueuedModelProvider implements ModelProvider {
+  constructor(
+    private readonly provider: ModelProvider,
+    private readonly queue: GenerationQueue
+  ) {}
+
+  get id(): string {
+    return this.provider.id;
+  }
+
+  async complete(model: string, prompt: string, options: GenerationOptions = {}): Promise<Completion> {
+    const release = await this.queue.acquire(options);
+    try {
+      return await this.provider.complete(model, prompt, options);
+    } finally {
+      release();
+    }
+  }
+
+  async *stream(model: string, prompt: string, options: GenerationOptions = {}): AsyncGenerator<CompletionChunk> {
+    const release = await this.queue.acquire(options);
+    try {
+      yield* this.provider.stream(model, prompt, options);
+    } finally {
+      release();
+    }
+  }
+
+  embed(model: string, text: string, signal?: AbortSignal): Promise<number[]> {
+    return this.provider.embed(model, text, signal);
+  }
+}
+
+export const DEFAULT_MODEL_PROVIDER = 'ollama';
+
+const providers: Record<string, () => ModelProvider> = {
+  ollama: () =>
+    new OllamaModelProvider(process.env.MODEL_BASE_URL || process.env.OLLAMA_URL || 'http://localhost:11434'),
+  openai: () =>
+    new OpenAICompatibleModelProvider(
+      process.env.MODEL_BASE_URL || 'http://localhost:8080/v1',
+      process.env.MODEL_API_KEY
+    ),
+  mock: () =>
+    new MockModelProvider(
+      process.env.MOCK_MODEL_RESPONSE,
+      Number(process.env.MOCK_EMBEDDING_DIMENSION) || 384,
+      Number(process.env.MOCK_CHUNK_DELAY_MS) || 0
+    ),
+};
+
+/**
+ * Create the provider named by MODEL_PROVIDER. An unknown name falls back to
+ * Ollama so a typo cannot take generation down.
+ */
+export function createModelProvider(name = process.env.MODEL_PROVIDER || DEFAULT_MODEL_PROVIDER): ModelProvider {
+  const create = providers[name];
+  if (!create) {
+    console.error(`Unknown model provider "${name}", using ${DEFAULT_MODEL_PROVIDER}`);
+    return providers[DEFAULT_MODEL_PROVIDER]();
+  }
+  return create();
+}
+
+export const modelProvider: ModelProvider = new QueuedModelProvider(createModelProvider(), generationQueue);
+
+// Model behind the streaming code and chat routes
+export const GENERATION_MODEL = process.env.GENERATION_MODEL || 'codellama:latest';
+
+// Smaller model for the non-streaming routes and prompt enhancement
+export const QUICK_GENERATION_MODEL = process.env.QUICK_GENERATION_MODEL || 'deepseek-coder:1.3b';
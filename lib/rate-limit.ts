@@ -0,0 +1,327 @@
+import type { UserRole } from '@prisma/client';
+import type { RedisClientType } from 'redis';
+import { getRedisClient, redisEnabled } from './redis-client';
+import { generationQueue, QueueFullError } from './generation-queue';
+
+/**
+ * Per-user limits on the AI routes. Each user gets a token bucket per route,
+ * refilled continuously up to one minute's allowance, and a daily budget of
+ * model tokens. Both live in Redis so every instance enforces the same
+ * numbers; without Redis each instance keeps its own in memory. Cache hits
+ * take from the bucket but cost no model tokens.
+ */
+
+export type AiRoute = 'chat' | 'code-suggestion';
+
+export interface RoleLimits {
+  requestsPerMinute: Record<AiRoute, number>;
+  dailyTokens: number;
+}
+
+export const ROLE_LIMITS: Record<UserRole, RoleLimits> = {
+  USER: {
+    requestsPerMinute: { chat: 20, 'code-suggestion': 120 },
+    dailyTokens: 200_000,
+  },
+  PREMIUM_USER: {
+    requestsPerMinute: { chat: 60, 'code-suggestion': 360 },
+    dailyTokens: 2_000_000,
+  },
+  ADMIN: {
+    requestsPerMinute: { chat: 240, 'code-suggestion': 1200 },
+    dailyTokens: Infinity,
+  },
+};
+
+// Requests per minute across all callers, a floor under the per-caller buckets
+// for callers that can change who they appear to be
+const GLOBAL_REQUESTS_PER_MINUTE: Record<AiRoute, number> = {
+  chat: Number(process.env.AI_GLOBAL_CHAT_PER_MINUTE) || 600,
+  'code-suggestion': Number(process.env.AI_GLOBAL_COMPLETIONS_PER_MINUTE) || 3000,
+};
+
+// Accept/reject reports per caller per minute; an editor sends one or two per completion
+const FEEDBACK_PER_MINUTE = 60;
+
+// Proxies in front of the app that append to X-Forwarded-For. One by default,
+// the hosting platform's or a reverse proxy's; 0 when clients reach the app
+// directly, since the header is then whatever the client sent.
+const proxyHops = Math.floor(Number(process.env.TRUSTED_PROXY_HOPS ?? 1));
+const TRUSTED_PROXY_HOPS = Number.isFinite(proxyHops) ? Math.max(0, proxyHops) : 1;
+
+export interface Requester {
+  // `user:{id}` when signed in, `ip:{address}` otherwise
+  id: string;
+  userId: string | null;
+  role: UserRole;
+}
+
+export interface RateLimitRejection {
+  reason: 'rate' | 'quota' | 'queue';
+  message: string;
+  retryAfterSeconds: number;
+}
+
+const BUCKET_PREFIX = 'ai:ratelimit:';
+const QUOTA_PREFIX = 'ai:quota:';
+
+// Yesterday's counter stays around a day for anyone looking at it
+const QUOTA_TTL_SECONDS = 2 * 24 * 60 * 60;
+
+// Memory fallback: forget buckets once this many have piled up
+const MAX_MEMORY_BUCKETS = 10_000;
+
+// Takes one request from a bucket holding up to ARGV[1] requests and refilling
+// ARGV[2] per millisecond. Returns 0 when allowed, otherwise the milliseconds
+// until a request is available. Uses the Redis clock so instances agree.
+const TAKE_SCRIPT = `
+local capacity = tonumber(ARGV[1])
+local refill = tonumber(ARGV[2])
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'ts')
+local tokens = tonumber(state[1]) or capacity
+local ts = tonumber(state[2]) or now
+tokens = math.min(capacity, tokens + math.max(0, now - ts) * refill)
+local wait = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+else
+  wait = math.ceil((1 - tokens) / refill)
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'ts', tostring(now))
+redis.call('PEXPIRE', KEYS[1], math.ceil(capacity / refill))
+return wait
+`;
+
+// Gives back the request TAKE_SCRIPT took from the bucket holding up to ARGV[1]
+const REFUND_SCRIPT = `
+local tokens = tonumber(redis.call('HGET', KEYS[1], 'tokens'))
+if tokens then
+  redis.call('HSET', KEYS[1], 'tokens', tostring(math.min(tonumber(ARGV[1]), tokens + 1)))
+end
+return 0
+`;
+
+// Address the closest trusted proxy saw the request come from
+function clientAddress(request: Request): string | null {
+  if (TRUSTED_PROXY_HOPS === 0) return null;
+
+  // Each proxy appends the address it was called from, so entries further
+  // left than our own proxies added can be forged by the client
+  const forwarded = (request.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map((address) => address.trim())
+    .filter(Boolean);
+  if (forwarded.length > 0) {
+    return forwarded[Math.max(0, forwarded.length - TRUSTED_PROXY_HOPS)];
+  }
+  return request.headers.get('x-real-ip');
+}
+
+/**
+ * Who a request counts against. Signed-in users are limited by id and role;
+ * anonymous callers by address with the USER limits. With TRUSTED_PROXY_HOPS=0
+ * addresses are unknown and anonymous callers share one allowance.
+ */
+export function requesterFor(
+  user: { id?: string | null; role?: string | null } | null | undefined,
+  request: Request
+): Requester {
+  const role = user?.role && user.role in ROLE_LIMITS ? (user.role as UserRole) : 'USER';
+  if (user?.id) return { id: `user:${user.id}`, userId: user.id, role };
+
+  return { id: `ip:${clientAddress(request) || 'unknown'}`, userId: null, role: 'USER' };
+}
+
+// Date of the current quota day, which turns over at midnight UTC
+export function quotaDay(now = new Date()): string {
+  return now.toISOString().slice(0, 10);
+}
+
+function secondsUntilMidnight(now = new Date()): number {
+  const midnight = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+  return Math.ceil((midnight - now.getTime()) / 1000);
+}
+
+export class AiRateLimiter {
+  // Like FailoverCacheStore: after a Redis failure, limit in memory for a while before trying again
+  private readonly RETRY_INTERVAL_MS = 30 * 1000;
+  private redisDownSince: number | null = null;
+
+  private buckets = new Map<string, { tokens: number; ts: number }>();
+  private quotas = new Map<string, { day: string; tokens: number }>();
+
+  /**
+   * Take one request from the requester's bucket for `route` and from the
+   * route's global bucket, unless either is empty or today's token budget is
+   * spent. Returns why the request was turned away, or null to let it through.
+   */
+  async check(requester: Requester, route: AiRoute): Promise<RateLimitRejection | null> {
+    const limits = ROLE_LIMITS[requester.role];
+
+    // Checked first so requests refused for the quota leave the bucket alone
+    const used = await this.tokensUsedToday(requester);
+    if (used >= limits.dailyTokens) {
+      return {
+        reason: 'quota',
+        message: `Daily AI quota of ${limits.dailyTokens.toLocaleString('en-US')} tokens used up. It resets at midnight UTC.`,
+        retryAfterSeconds: secondsUntilMidnight(),
+      };
+    }
+
+    const bucket = `${BUCKET_PREFIX}${route}:${requester.id}`;
+    const waitMs = await this.take(bucket, limits.requestsPerMinute[route]);
+    if (waitMs > 0) {
+      const retryAfterSeconds = Math.ceil(waitMs / 1000);
+      return {
+        reason: 'rate',
+        message: `Too many AI requests. Try again in ${retryAfterSeconds}s.`,
+        retryAfterSeconds,
+      };
+    }
+
+    const globalWaitMs = await this.take(`${BUCKET_PREFIX}${route}:global`, GLOBAL_REQUESTS_PER_MINUTE[route]);
+    if (globalWaitMs > 0) {
+      // Not the requester's doing, so it keeps its request for the retry
+      await this.refund(bucket, limits.requestsPerMinute[route]);
+      const retryAfterSeconds = Math.ceil(globalWaitMs / 1000);
+      return {
+        reason: 'rate',
+        message: `The AI service is handling too many requests. Try again in ${retryAfterSeconds}s.`,
+        retryAfterSeconds,
+      };
+    }
+    return null;
+  }
+
+  /**
+   * Take one report from the requester's feedback bucket. Feedback costs no
+   * model tokens, so the daily quota does not apply.
+   */
+  async checkFeedback(requester: Requester): Promise<RateLimitRejection | null> {
+    const waitMs = await this.take(`${BUCKET_PREFIX}feedback:${requester.id}`, FEEDBACK_PER_MINUTE);
+    if (waitMs === 0) return null;
+
+    const retryAfterSeconds = Math.ceil(waitMs / 1000);
+    return {
+      reason: 'rate',
+      message: `Too much feedback. Try again in ${retryAfterSeconds}s.`,
+      retryAfterSeconds,
+    };
+  }
+
+  // Milliseconds until the bucket at `key` has a request to give, 0 after taking one
+  private take(key: string, perMinute: number): Promise<number> {
+    const refill = perMinute / 60_000;
+    return this.run(
+      async (redis) => Number(await redis.eval(TAKE_SCRIPT, { keys: [key], arguments: [String(perMinute), String(refill)] })),
+      () => this.takeLocally(key, perMinute, refill)
+    );
+  }
+
+  private async refund(key: string, perMinute: number): Promise<void> {
+    await this.run(
+      async (redis) => {
+        await redis.eval(REFUND_SCRIPT, { keys: [key], arguments: [String(perMinute)] });
+      },
+      () => {
+        const bucket = this.buckets.get(key);
+        if (bucket) bucket.tokens = Math.min(perMinute, bucket.tokens + 1);
+      }
+    );
+  }
+
+  // Count prompt and completion tokens against today's budget; cache hits are free
+  async recordTokens(requester: Requester, tokens: number): Promise<void> {
+    if (tokens <= 0) return;
+    const day = quotaDay();
+    await this.run(
+      async (redis) => {
+        const key = `${QUOTA_PREFIX}${requester.id}:${day}`;
+        await redis.multi().incrBy(key, tokens).expire(key, QUOTA_TTL_SECONDS).exec();
+      },
+      () => {
+        const quota = this.quotas.get(requester.id);
+        this.quotas.set(requester.id, { day, tokens: (quota?.day === day ? quota.tokens : 0) + tokens });
+      }
+    );
+  }
+
+  async tokensUsedToday(requester: Requester): Promise<number> {
+    const day = quotaDay();
+    return this.run(
+      async (redis) => Number(await redis.get(`${QUOTA_PREFIX}${requester.id}:${day}`)) || 0,
+      () => {
+        const quota = this.quotas.get(requester.id);
+        return quota?.day === day ? quota.tokens : 0;
+      }
+    );
+  }
+
+  private async run<T>(remote: (redis: RedisClientType) => Promise<T>, local: () => T): Promise<T> {
+    const now = Date.now();
+    if (!redisEnabled()) return local();
+    if (this.redisDownSince !== null && now - this.redisDownSince < this.RETRY_INTERVAL_MS) {
+      return local();
+    }
+
+    try {
+      const result = await remote(await getRedisClient());
+      if (this.redisDownSince !== null) {
+        console.log('✅ Rate limits back on Redis');
+        this.redisDownSince = null;
+      }
+      return result;
+    } catch (error) {
+      if (this.redisDownSince === null) {
+        console.warn('⚠️ Rate limiting in memory, Redis unavailable:', error);
+      }
+      this.redisDownSince = now;
+      return local();
+    }
+  }
+
+  // Same bucket as TAKE_SCRIPT, held by this instance only
+  private takeLocally(key: string, capacity: number, refill: number): number {
+    const now = Date.now();
+    const bucket = this.buckets.get(key) ?? { tokens: capacity, ts: now };
+    const tokens = Math.min(capacity, bucket.tokens + (now - bucket.ts) * refill);
+
+    if (this.buckets.size >= MAX_MEMORY_BUCKETS) this.buckets.clear();
+    if (tokens >= 1) {
+      this.buckets.set(key, { tokens: tokens - 1, ts: now });
+      return 0;
+    }
+    this.buckets.set(key, { tokens, ts: now });
+    return Math.ceil((1 - tokens) / refill);
+  }
+}
+
+export const aiRateLimiter = new AiRateLimiter();
+
+export function queueFullRejection(error: QueueFullError): RateLimitRejection {
+  return { reason: 'queue', message: error.message, retryAfterSeconds: error.retryAfterSeconds };
+}
+
+// Refuse generations up front while the model queue is full
+export function queueRejection(): RateLimitRejection | null {
+  if (!generationQueue.isFull) return null;
+  return queueFullRejection(new QueueFullError(generationQueue.retryAfterSeconds));
+}
+
+// 429 telling the client why and when to come back
+export function tooManyRequests(rejection: RateLimitRejection): Response {
+  return new Response(
+    JSON.stringify({
+      success: false,
+      error: rejection.message,
+      reason: rejection.reason,
+      retryAfter: rejection.retryAfterSeconds,
+    }),
+    {
+      status: 429,
+      headers: { 'Content-Type': 'application/json', 'Retry-After': String(rejection.retryAfterSeconds) },
+    }
+  );
+}
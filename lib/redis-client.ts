@@ -1,35 +1,132 @@
 import { createClient, RedisClientType } from 'redis';
 
+// After a failed connect nobody tries again for this long; callers fall back straight away
+const RETRY_INTERVAL_MS = 30 * 1000;
+
 // Redis client singleton
 let redisClient: RedisClientType | null = null;
+let connecting: Promise<RedisClientType> | null = null;
+let redisDownSince: number | null = null;
 
-export async function getRedisClient(): Promise<RedisClientType> {
-  if (!redisClient) {
-    redisClient = createClient({
-      url: process.env.REDIS_URL || 'redis://localhost:6379',
-      socket: {
-        reconnectStrategy: (retries) => {
-            if(retries>10) return false;
-            return Math.min(retries*50, 1000);
-        }
+export class RedisUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RedisUnavailableError';
+  }
+}
+
+/**
+ * False with CACHE_BACKEND=memory: the cache, rate limits, metrics and
+ * cross-instance coordination then all stay in-process and never dial Redis.
+ */
+export function redisEnabled(): boolean {
+  return process.env.CACHE_BACKEND !== 'memory';
+}
+
+async function connect(): Promise<RedisClientType> {
+  let ready = false;
+  const client: RedisClientType = createClient({
+    url: process.env.REDIS_URL || 'redis://localhost:6379',
+    socket: {
+      // The first connect fails fast, the breaker in getRedisClient paces the next attempt
+      reconnectStrategy: (retries) => {
+        if (!ready || retries > 10) return false;
+        return Math.min(retries * 50, 1000);
       }
-    });
+    }
+  });
 
-    redisClient.on('error', (err) => {
-      console.error('Redis Client Error:', err);
-    });
+  client.on('error', (err) => {
+    if (ready) console.error('Redis Client Error:', err);
+  });
 
-    redisClient.on('connect', () => {
-      console.log('✅ Redis connected successfully');
-    });
+  client.on('ready', () => {
+    ready = true;
+  });
+
+  client.on('connect', () => {
+    console.log('✅ Redis connected successfully');
+  });
+
+  try {
+    await client.connect();
+  } catch (error) {
+    if (client.isOpen) client.destroy();
+    throw error;
+  }
+  return client;
+}
+
+export async function getRedisClient(): Promise<RedisClientType> {
+  if (!redisEnabled()) {
+    throw new RedisUnavailableError('Redis is disabled by CACHE_BACKEND=memory');
+  }
+
+  // Drop a client that gave up reconnecting so the next call starts fresh
+  if (redisClient && !redisClient.isOpen) {
+    redisClient = null;
+  }
+  if (redisClient) return redisClient;
+  if (connecting) return connecting;
 
-    await redisClient.connect();
+  if (redisDownSince !== null && Date.now() - redisDownSince < RETRY_INTERVAL_MS) {
+    throw new RedisUnavailableError('Redis is unreachable, waiting before the next connect attempt');
   }
 
-  return redisClient;
+  connecting = connect();
+  try {
+    redisClient = await connecting;
+    redisDownSince = null;
+    return redisClient;
+  } catch (error) {
+    if (redisDownSince === null) {
+      console.error(`Redis connect failed, retrying in ${RETRY_INTERVAL_MS / 1000}s:`, error);
+    }
+    redisDownSince = Date.now();
+    throw error;
+  } finally {
+    connecting = null;
+  }
+}
+
+// Pub/sub needs its own connection; shared by every channel subscriber
+let subscriberClient: RedisClientType | null = null;
+let subscriberConnecting: Promise<RedisClientType> | null = null;
+
+export async function getRedisSubscriber(): Promise<RedisClientType> {
+  if (subscriberClient?.isOpen) return subscriberClient;
+  if (subscriberConnecting) return subscriberConnecting;
+
+  subscriberConnecting = (async () => {
+    const client = (await getRedisClient()).duplicate();
+
+    client.on('error', (err) => {
+      console.error('Redis Subscriber Error:', err);
+    });
+
+    try {
+      await client.connect();
+    } catch (error) {
+      if (client.isOpen) client.destroy();
+      throw error;
+    }
+
+    subscriberClient = client;
+    return client;
+  })();
+
+  try {
+    return await subscriberConnecting;
+  } finally {
+    subscriberConnecting = null;
+  }
 }
 
 export async function closeRedisConnection() {
+  if (subscriberClient) {
+    await subscriberClient.quit();
+    subscriberClient = null;
+  }
   if (redisClient) {
     await redisClient.quit();
     redisClient = null;
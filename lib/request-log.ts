@@ -0,0 +1,129 @@
+import { appendFile, mkdir, open } from 'fs/promises';
+import path from 'path';
+import type { StreamOutcome } from './suggestion-guardrails';
+
+/**
+ * A completion or chat request as the cache saw it, with the answer the user
+ * got. `source: 'model'` marks a fresh generation; only those are ground truth
+ * when replaying, a cached answer may itself have been wrong.
+ */
+export interface RequestLogRecord {
+  kind: 'completion' | 'chat';
+  timestamp: number;
+  input: {
+    fileContent: string;
+    cursorLine: number;
+    cursorColumn: number;
+    language: string;
+    framework: string;
+    suggestionType: string;
+    history?: { role: string; content: string }[];
+    attachments?: string[];
+    fileName?: string;
+  };
+  output: string;
+  source: 'model' | 'cache';
+  // How the model stream ended, for fresh generations; replays run the guardrails on it
+  outcome?: StreamOutcome;
+  latencyMs: number;
+}
+
+// Recording is off unless CACHE_REQUEST_LOG names the JSONL file to append to
+export const REQUEST_LOG_PATH = process.env.CACHE_REQUEST_LOG || null;
+
+// Logs that can be replayed live next to it, e.g. rotated copies
+const REQUEST_LOG_DIR = REQUEST_LOG_PATH ? path.dirname(path.resolve(REQUEST_LOG_PATH)) : null;
+
+// Replays read at most this much of a log
+const MAX_REPLAY_BYTES = Number(process.env.CACHE_REQUEST_LOG_MAX_BYTES) || 50 * 1024 * 1024;
+
+const SCRUBBERS: [RegExp, string][] = [
+  [/[\w.+-]+@[\w-]+\.[\w.-]+/g, '<email>'],
+  [/\bhttps?:\/\/[^\s'"`)]+/g, '<url>'],
+  [/\b(?:\d{1,3}\.){3}\d{1,3}\b/g, '<ip>'],
+  // API keys, tokens and other long opaque strings
+  [/\b(?=[A-Za-z0-9_\-]*\d)[A-Za-z0-9_\-]{32,}\b/g, '<secret>'],
+];
+
+// Strip personal data and credentials that tend to end up in code and chat
+export function anonymize(text: string): string {
+  return SCRUBBERS.reduce((scrubbed, [pattern, placeholder]) => scrubbed.replace(pattern, placeholder), text);
+}
+
+function anonymizeRecord(record: RequestLogRecord): RequestLogRecord {
+  const { input } = record;
+  return {
+    ...record,
+    input: {
+      ...input,
+      fileContent: anonymize(input.fileContent),
+      history: input.history?.map((msg) => ({ role: msg.role, content: anonymize(msg.content) })),
+      attachments: input.attachments?.map(anonymize),
+    },
+    output: anonymize(record.output),
+  };
+}
+
+/**
+ * Append a request to the log. Best effort: logging must never fail a request.
+ */
+export async function logRequest(record: RequestLogRecord): Promise<void> {
+  if (!REQUEST_LOG_PATH) return;
+
+  try {
+    await mkdir(path.dirname(path.resolve(REQUEST_LOG_PATH)), { recursive: true });
+    await appendFile(REQUEST_LOG_PATH, JSON.stringify(anonymizeRecord(record)) + '\n');
+  } catch (error) {
+    console.warn('⚠️ Failed to write request log:', error);
+  }
+}
+
+/**
+ * Path of a log to replay: the request log itself, or another file by name in
+ * its directory. Null for names that would leave the directory, and when
+ * recording is off.
+ */
+export function resolveRequestLog(name?: string): string | null {
+  if (!REQUEST_LOG_PATH || !REQUEST_LOG_DIR) return null;
+  if (name === undefined) return path.resolve(REQUEST_LOG_PATH);
+  if (!name || name !== path.basename(name)) return null;
+
+  const file = path.resolve(REQUEST_LOG_DIR, name);
+  return path.dirname(file) === REQUEST_LOG_DIR ? file : null;
+}
+
+/**
+ * Read a request log, skipping blank and malformed lines. Only regular files
+ * are read, and only their first MAX_REPLAY_BYTES.
+ */
+export async function readRequestLog(file: string): Promise<RequestLogRecord[]> {
+  const handle = await open(file, 'r');
+  let text: string;
+  try {
+    const stats = await handle.stat();
+    if (!stats.isFile()) throw new Error(`${path.basename(file)} is not a regular file`);
+
+    const buffer = Buffer.alloc(Math.min(stats.size, MAX_REPLAY_BYTES));
+    const { bytesRead } = await handle.read(buffer, 0, buffer.length, 0);
+    text = buffer.toString('utf8', 0, bytesRead);
+    if (stats.size > MAX_REPLAY_BYTES) {
+      console.warn(`⚠️ Request log is over ${MAX_REPLAY_BYTES} bytes, replaying the start only`);
+      // The last line is probably cut off
+      text = text.slice(0, text.lastIndexOf('\n') + 1);
+    }
+  } finally {
+    await handle.close();
+  }
+
+  const records: RequestLogRecord[] = [];
+  for (const line of text.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const record = JSON.parse(line);
+      if (record?.input && typeof record.output === 'string') records.push(record);
+    } catch {
+      console.warn('⚠️ Skipping malformed request log line');
+    }
+  }
+  return records;
+}
@@ -1,16 +1,48 @@
-import { getRedisClient } from './redis-client';
-import { generateEmbedding, createCodeContext, createChatContext, calculateSimilarity } from './embedding-service';
-
-interface CacheEntry {
-  id: string;
-  context: string;
-  embedding: number[];
-  suggestion: string;
-  language: string;
-  framework: string;
-  timestamp: number;
-  hitCount: number;
-}
+import {
+  generateEmbedding,
+  createCodeContext,
+  createChatContext,
+  hashContext,
+  digestConversation,
+  isUsableEmbedding,
+  embeddingProvider,
+} from './embedding-service';
+import type { EmbeddingProvider } from './embedding-providers';
+import { EmbeddingUnavailableError } from './embedding-pool';
+import {
+  acceptanceScore,
+  entryKey,
+  type FeedbackVote,
+  type IndexedEntry,
+  type IndexPartition,
+  type IndexStats,
+  type ListedEntry,
+} from './vector-index';
+import { createCacheStore, type CacheBackend, type CacheStore } from './cache-store';
+import {
+  cachePolicies,
+  entrySize,
+  evictionOrder,
+  type CachePolicies,
+  type CachePolicy,
+  type PolicyConfig,
+} from './cache-policy';
+import {
+  SNAPSHOT_FORMAT,
+  SNAPSHOT_FORMAT_VERSION,
+  type CacheSnapshot,
+  type SnapshotImportReport,
+} from './cache-snapshot';
+import { L1Cache } from './l1-cache';
+import { cursorLines, jaccardSimilarity } from './lexical-match';
+import { onInvalidation, publishInvalidation, type InvalidationMessage } from './cache-invalidation';
+import {
+  currentGeneration,
+  legacyGeneration,
+  versionTag,
+  type CacheVersion,
+  type GenerationStamp,
+} from './cache-version';
 
 interface CodeContextInput {
   fileContent: string;
@@ -19,263 +51,768 @@ interface CodeContextInput {
   language: string;
   framework: string;
   suggestionType: string;
+  // Model and prompt template that produce (or produced) the answer
+  model: string;
+  promptVersion: string;
+  // Chat only: earlier turns and attached file contents the answer depends on
+  history?: { role: string; content: string }[];
+  attachments?: string[];
+}
+
+interface TierCounters {
+  hits: number;
+  misses: number;
+}
+
+export interface TierStats {
+  l1: TierCounters & { size: number };
+  l2: TierCounters;
+}
+
+export interface CachedSuggestion {
+  suggestion: string;
+  // L2 entry the suggestion came from, reported back with accept/reject feedback
+  key: string;
+  tier: CacheHit['tier'];
+  score: ScoreBreakdown | null;
+}
+
+// How a semantic hit was scored; lexical parts are null for chat
+export interface ScoreBreakdown {
+  cosine: number;
+  // Token Jaccard similarity of the line above the cursor
+  lexical: number | null;
+  // Whether the current line up to the cursor matched exactly
+  prefixMatch: boolean | null;
+  score: number;
+}
+
+export interface CacheHit {
+  key: string;
+  tier: 'l1' | 'exact' | 'semantic';
+  language: string;
+  suggestionType: string;
+  // Semantic hits only; exact hits match the whole context
+  score: ScoreBreakdown | null;
+  timestamp: number;
+}
+
+export interface FeedbackResult extends FeedbackVote {
+  acceptance: number;
+  purged: boolean;
+}
+
+// Predicate for browsing and bulk-purging entries; age is time since last use
+export interface EntryFilter {
+  language?: string;
+  framework?: string;
+  suggestionType?: string;
+  minAgeMs?: number;
+  maxAgeMs?: number;
+}
+
+export interface EntryPage {
+  entries: ListedEntry[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export type MigrationMode = 'plan' | 'reembed' | 'drop';
+
+export interface VersionPartition extends CacheVersion {
+  version: string;
+  // Models of different sizes coexist in the index until the old partitions are dropped
+  embeddingDimension: number;
+  entries: number;
+  // reembed: current model and prompt but another embedding model; stale: another model or prompt
+  status: 'current' | 'reembed' | 'stale';
+}
+
+export interface MigrationReport {
+  mode: MigrationMode;
+  partitions: VersionPartition[];
+  reembedded: number;
+  dropped: number;
+}
+
+function matchesFilter(entry: ListedEntry, filter: EntryFilter, now: number): boolean {
+  const age = now - entry.timestamp;
+  return (
+    (!filter.language || entry.language === filter.language) &&
+    (!filter.framework || entry.framework === filter.framework) &&
+    (!filter.suggestionType || entry.suggestionType === filter.suggestionType) &&
+    (filter.minAgeMs === undefined || age >= filter.minAgeMs) &&
+    (filter.maxAgeMs === undefined || age <= filter.maxAgeMs)
+  );
 }
 
 export class SemanticCache {
-  private readonly CACHE_PREFIX = 'code_suggestion:';
-  private readonly SIMILARITY_THRESHOLD = 0.85; // High threshold for code similarity
-  private readonly MAX_CACHE_SIZE = 1000;
-  private readonly CACHE_TTL = 7 * 24 * 60 * 60; // 7 days
+  // Policy enforcement lists every entry, so it runs at most this often
+  private readonly ENFORCE_INTERVAL_MS = 30 * 1000;
+  private readonly SEARCH_TOP_K = 5;
+  // Share of the hybrid score from cosine similarity; lexical overlap makes up the rest
+  private readonly COSINE_WEIGHT = 0.7;
+  private readonly RECENT_HITS_MAX = 200;
+  // Rejected entries below this are only served for an exact context match
+  private readonly DEMOTE_BELOW_ACCEPTANCE = 0.4;
+  // Entries rejected this often and scoring below PURGE_BELOW_ACCEPTANCE are deleted
+  private readonly PURGE_MIN_REJECTS = 3;
+  private readonly PURGE_BELOW_ACCEPTANCE = 0.25;
+
+  private readonly l1 = new L1Cache(
+    Number(process.env.L1_CACHE_MAX_ENTRIES) || 500,
+    Number(process.env.L1_CACHE_TTL_MS) || 60 * 1000
+  );
+  private readonly counters = {
+    l1: { hits: 0, misses: 0 },
+    l2: { hits: 0, misses: 0 },
+  };
+
+  private lastEnforced = 0;
+  private readonly recentHits: CacheHit[] = [];
+
+  constructor(
+    private readonly store: CacheStore = createCacheStore(),
+    private readonly policies: CachePolicies = cachePolicies,
+    private readonly embeddings: EmbeddingProvider = embeddingProvider
+  ) {}
+
+  get backend(): CacheBackend {
+    return this.store.backend;
+  }
 
   async getCachedSuggestion(input: CodeContextInput): Promise<string | null> {
+    return (await this.lookupSuggestion(input))?.suggestion ?? null;
+  }
+
+  /**
+   * Same lookup as getCachedSuggestion, also returning the entry key so the
+   * caller can report whether the suggestion was kept
+   */
+  async lookupSuggestion(input: CodeContextInput): Promise<CachedSuggestion | null> {
     const startTime = Date.now();
     
     try {
-      const redis = await getRedisClient();
-      
-      // Create appropriate context based on type
-      let context: string;
-      if (input.language === "Chat") {
-        // For chat messages, use chat context
-        context = createChatContext(input.fileContent, input.framework, []);
-      } else {
-        // For code suggestions, use code context
-        context = createCodeContext(
-          input.fileContent,
-          input.cursorLine,
-          input.cursorColumn,
-          input.language,
-          input.framework
-        );
+      const context = this.buildContext(input);
+      const version = versionTag(this.versionOf(input));
+      const conversation = this.conversationOf(input);
+      const contextHash = hashContext(context, input.suggestionType, version, conversation);
+      const policy = this.policyOf(input);
+
+      // L1: exact match in this process, no embedding needed
+      this.ensureInvalidationSubscription();
+      const l1Hit = this.l1.get(contextHash);
+      if (l1Hit) {
+        this.counters.l1.hits++;
+        await this.store.recordHit(l1Hit.l2Key, Date.now(), policy.ttlSeconds);
+        console.log(`⚡ L1 cache HIT. Response time: ${Date.now() - startTime}ms`);
+        return this.recordHit(input, { suggestion: l1Hit.suggestion, key: l1Hit.l2Key, tier: 'l1', score: null });
+      }
+      this.counters.l1.misses++;
+
+      // Exact match on the context hash, before any embedding work
+      const exactKey = entryKey(input, contextHash);
+      const exactEntry = await this.store.get(exactKey);
+      if (exactEntry) {
+        await this.store.recordHit(exactKey, Date.now(), policy.ttlSeconds);
+        this.counters.l2.hits++;
+        this.l1.set(contextHash, exactEntry.suggestion, exactKey);
+        console.log(`🎯 Exact cache HIT. Response time: ${Date.now() - startTime}ms`);
+        return this.recordHit(input, { suggestion: exactEntry.suggestion, key: exactKey, tier: 'exact', score: null });
       }
 
       console.log('🔍 Searching semantic cache...');
       
       // Generate embedding for the current context
-      const queryEmbedding = await generateEmbedding(context);
+      const queryEmbedding = await this.embed(context);
       
-      // Get all cache entries for this language/framework
-      const pattern = `${this.CACHE_PREFIX}${input.language}:${input.framework}:*`;
-      const keys = await redis.keys(pattern);
+      // Single top-k query against the vector index for this language/framework,
+      // limited to chats with the same history and attachments
+      const neighbours = await this.store.search(
+        { language: input.language, framework: input.framework, version, conversation },
+        queryEmbedding,
+        this.SEARCH_TOP_K
+      );
       
-      if (keys.length === 0) {
+      if (neighbours.length === 0) {
+        this.counters.l2.misses++;
         console.log('📭 No cache entries found');
         return null;
       }
 
-      console.log(`🔎 Checking ${keys.length} cache entries for similarity`);
-      
-      let bestMatch: { key: string; similarity: number; entry: CacheEntry } | null = null;
+      console.log(`🔎 Checked ${neighbours.length} nearest neighbours (${this.store.backend} store)`);
       
-      // Check similarity with all cached entries
-      for (const key of keys) {
-        const cachedData = await redis.get(key);
-        if (!cachedData) continue;
-        
-        try {
-          const entry: CacheEntry = JSON.parse(cachedData);
-          const similarity = calculateSimilarity(queryEmbedding, entry.embedding);
-          
-          if (similarity > this.SIMILARITY_THRESHOLD && 
-              (!bestMatch || similarity > bestMatch.similarity)) {
-            bestMatch = { key, similarity, entry };
-          }
-        } catch (error) {
-          console.error('Error parsing cache entry:', error);
+      // Neighbours come back most similar first; rank them by the hybrid score
+      let best: { key: string; suggestion: string; score: ScoreBreakdown } | null = null;
+      for (const match of neighbours) {
+        if (this.scoreCeiling(input, match.similarity) <= policy.similarityThreshold) break;
+
+        const entry = await this.store.get(match.key);
+        if (!entry) continue;
+
+        if (acceptanceScore(entry) < this.DEMOTE_BELOW_ACCEPTANCE) {
+          console.log(`👎 Skipping demoted entry ${match.key}`);
+          continue;
+        }
+
+        const score = this.scoreMatch(input, entry, match.similarity);
+        if (score.prefixMatch === false || score.score <= policy.similarityThreshold) {
+          console.log(`🔤 Skipping ${match.key}: ${JSON.stringify(score)}`);
+          continue;
+        }
+
+        if (!best || score.score > best.score.score) {
+          best = { key: match.key, suggestion: entry.suggestion, score };
         }
       }
-      
-      if (bestMatch) {
+
+      if (best) {
         // Update hit count and return cached suggestion
-        bestMatch.entry.hitCount++;
-        bestMatch.entry.timestamp = Date.now();
-        
-        await redis.setEx(
-          bestMatch.key, 
-          this.CACHE_TTL, 
-          JSON.stringify(bestMatch.entry)
-        );
-        
+        await this.store.recordHit(best.key, Date.now(), policy.ttlSeconds);
+        this.counters.l2.hits++;
+        this.l1.set(contextHash, best.suggestion, best.key);
+
         const responseTime = Date.now() - startTime;
-        console.log(`🎯 Cache HIT! Similarity: ${(bestMatch.similarity * 100).toFixed(1)}%, Response time: ${responseTime}ms`);
-        
-        return bestMatch.entry.suggestion;
+        console.log(`🎯 Cache HIT! Score: ${(best.score.score * 100).toFixed(1)}% (cosine ${(best.score.cosine * 100).toFixed(1)}%), Response time: ${responseTime}ms`);
+
+        return this.recordHit(input, { ...best, tier: 'semantic' });
       }
       
+      this.counters.l2.misses++;
       const responseTime = Date.now() - startTime;
       console.log(`❌ Cache MISS. Response time: ${responseTime}ms`);
       return null;
       
     } catch (error) {
+      if (error instanceof EmbeddingUnavailableError) {
+        this.counters.l2.misses++;
+        console.warn(`⏱️ ${error.message}, bypassing semantic cache`);
+        return null;
+      }
       console.error('Error in semantic cache lookup:', error);
       return null;
     }
   }
 
-  async cacheSuggestion(input: CodeContextInput, suggestion: string): Promise<void> {
+  /**
+   * Store a generated suggestion and return its entry key, or null if it could not be cached
+   */
+  async cacheSuggestion(input: CodeContextInput, suggestion: string): Promise<string | null> {
     try {
-      const redis = await getRedisClient();
-      
-      // Create appropriate context based on type
-      let context: string;
-      if (input.language === "Chat") {
-        // For chat messages, use chat context
-        context = createChatContext(input.fileContent, input.framework, []);
-      } else {
-        // For code suggestions, use code context
-        context = createCodeContext(
-          input.fileContent,
-          input.cursorLine,
-          input.cursorColumn,
-          input.language,
-          input.framework
-        );
-      }
+      const context = this.buildContext(input);
+      const cacheVersion = this.versionOf(input);
+      const version = versionTag(cacheVersion);
+      const conversation = this.conversationOf(input);
+      const contextHash = hashContext(context, input.suggestionType, version, conversation);
+      const policy = this.policyOf(input);
 
       console.log('💾 Caching new suggestion...');
       
       // Generate embedding for the context
-      const embedding = await generateEmbedding(context);
+      const embedding = await this.embed(context);
       
       // Create cache entry
-      const entry: CacheEntry = {
-        id: this.generateCacheId(input),
+      const entry: IndexedEntry = {
+        // Identical contexts share one entry instead of piling up new keys
+        id: contextHash,
         context,
         embedding,
         suggestion: suggestion.trim(),
         language: input.language,
         framework: input.framework,
+        suggestionType: input.suggestionType,
+        ...cacheVersion,
+        embeddingDimension: embedding.length,
+        version,
+        conversation,
+        ...this.lexicalFieldsOf(input),
         timestamp: Date.now(),
-        hitCount: 0
+        hitCount: 0,
+        accepts: 0,
+        rejects: 0
       };
       
-      // Store in Redis with TTL
-      const key = `${this.CACHE_PREFIX}${input.language}:${input.framework}:${entry.id}`;
-      await redis.setEx(key, this.CACHE_TTL, JSON.stringify(entry));
+      // Store with TTL and add it to the vector index
+      const key = entryKey(entry, entry.id);
+      await this.store.upsert(key, entry, policy.ttlSeconds);
+      
+      // Other instances may hold an older answer for this L2 entry
+      await this.broadcast({ type: 'evict', keys: [key] });
+      this.l1.set(contextHash, entry.suggestion, key);
       
       console.log(`✅ Cached suggestion with key: ${key}`);
       
-      // Cleanup old entries if cache is getting too large
-      await this.cleanupOldEntries(redis);
+      // Trim partitions over their policy limits and the cache to its memory budget
+      if (Date.now() - this.lastEnforced >= this.ENFORCE_INTERVAL_MS) {
+        this.lastEnforced = Date.now();
+        await this.enforcePolicies();
+      }
       
+      return key;
     } catch (error) {
+      if (error instanceof EmbeddingUnavailableError) {
+        console.warn(`⏱️ ${error.message}, not caching suggestion`);
+        return null;
+      }
       console.error('Error caching suggestion:', error);
+      return null;
     }
   }
 
-  private generateCacheId(input: CodeContextInput): string {
-    const hash = this.simpleHash(
-      input.fileContent.substring(
-        Math.max(0, input.cursorLine - 2), 
-        input.cursorLine + 3
-      ) + input.suggestionType
+  /**
+   * Record that a suggestion served from `key` was accepted or rejected.
+   * Each voter counts once per entry. Rejected entries are demoted out of
+   * semantic matches and purged once their acceptance drops far enough.
+   */
+  async recordFeedback(key: string, accepted: boolean, voter: string): Promise<FeedbackResult | null> {
+    const counts = await this.store.recordFeedback(key, accepted, voter);
+    if (!counts) return null;
+
+    const acceptance = acceptanceScore(counts);
+    // A repeated vote changed nothing, so there is nothing to act on
+    if (!counts.counted) return { ...counts, acceptance, purged: false };
+
+    const purged = counts.rejects >= this.PURGE_MIN_REJECTS && acceptance < this.PURGE_BELOW_ACCEPTANCE;
+
+    if (purged) {
+      console.log(`🗑️ Purging repeatedly rejected entry ${key}`);
+      await this.evictEntries([key]);
+    } else if (!accepted && acceptance < this.DEMOTE_BELOW_ACCEPTANCE) {
+      // L1 may hold it for contexts that only matched semantically
+      this.l1.evictL2Keys([key]);
+      await this.broadcast({ type: 'evict', keys: [key] });
+    }
+
+    return { ...counts, acceptance, purged };
+  }
+
+  /**
+   * Deterministic key for a request's normalized context, shared by the
+   * exact-match lookup and request coalescing
+   */
+  getContextHash(input: CodeContextInput): string {
+    const version = versionTag(this.versionOf(input));
+    const contextHash = hashContext(this.buildContext(input), input.suggestionType, version, this.conversationOf(input));
+    return `${input.language}:${input.framework}:${contextHash}`;
+  }
+
+  /**
+   * Re-read the cache policy here and on every other instance, then apply it
+   * to the entries already cached
+   */
+  async reloadPolicies(): Promise<PolicyConfig> {
+    const config = this.policies.reload();
+    await this.broadcast({ type: 'policy' });
+    this.lastEnforced = Date.now();
+    await this.enforcePolicies();
+    return config;
+  }
+
+  /**
+   * Recent L1, exact and semantic hits with their score breakdown, newest first
+   */
+  getRecentHits(): CacheHit[] {
+    return [...this.recentHits].reverse();
+  }
+
+  private recordHit(input: CodeContextInput, hit: CachedSuggestion): CachedSuggestion {
+    this.recentHits.push({
+      key: hit.key,
+      tier: hit.tier,
+      language: input.language,
+      suggestionType: input.suggestionType,
+      score: hit.score,
+      timestamp: Date.now(),
+    });
+    if (this.recentHits.length > this.RECENT_HITS_MAX) this.recentHits.shift();
+    return hit;
+  }
+
+  // Chat has no cursor, so only code entries are compared lexically
+  private lexicalFieldsOf(input: CodeContextInput): { previousLine: string; linePrefix: string } {
+    if (input.language === "Chat") return { previousLine: '', linePrefix: '' };
+    return cursorLines(input.fileContent, input.cursorLine, input.cursorColumn);
+  }
+
+  /**
+   * Combine cosine similarity with token overlap on the line above the cursor.
+   * Code completions also require the current line up to the cursor to match
+   * exactly: embeddings barely move when only an identifier or literal differs.
+   */
+  private scoreMatch(input: CodeContextInput, entry: Omit<IndexedEntry, 'embedding'>, cosine: number): ScoreBreakdown {
+    if (input.language === "Chat") {
+      return { cosine, lexical: null, prefixMatch: null, score: cosine };
+    }
+
+    const { previousLine, linePrefix } = this.lexicalFieldsOf(input);
+    const lexical = jaccardSimilarity(previousLine, entry.previousLine);
+    return {
+      cosine,
+      lexical,
+      prefixMatch: linePrefix === entry.linePrefix,
+      score: this.COSINE_WEIGHT * cosine + (1 - this.COSINE_WEIGHT) * lexical,
+    };
+  }
+
+  // Best hybrid score a neighbour with this cosine similarity could reach
+  private scoreCeiling(input: CodeContextInput, cosine: number): number {
+    if (input.language === "Chat") return cosine;
+    return this.COSINE_WEIGHT * cosine + (1 - this.COSINE_WEIGHT);
+  }
+
+  private policyOf(input: CodeContextInput): CachePolicy {
+    return this.policies.resolve(input.language, input.suggestionType);
+  }
+
+  private embed(text: string): Promise<number[]> {
+    return generateEmbedding(text, undefined, this.embeddings);
+  }
+
+  private versionOf(input: CodeContextInput): CacheVersion {
+    return { model: input.model, promptVersion: input.promptVersion, embeddingModel: this.embeddings.id };
+  }
+
+  // Chat answers depend on earlier turns, so only equivalent conversations share entries
+  private conversationOf(input: CodeContextInput): string {
+    if (input.language !== "Chat") return '';
+    return digestConversation(input.history ?? [], input.attachments ?? []);
+  }
+
+  private buildContext(input: CodeContextInput): string {
+    // Create appropriate context based on type
+    if (input.language === "Chat") {
+      // For chat messages, use chat context
+      return createChatContext(input.fileContent, input.framework, input.history);
+    }
+
+    // For code suggestions, use code context
+    return createCodeContext(
+      input.fileContent,
+      input.cursorLine,
+      input.cursorColumn,
+      input.language,
+      input.framework
     );
-    return `${Date.now()}_${hash}`;
   }
 
-  private simpleHash(str: string): string {
-    let hash = 0;
-    for (let i = 0; i < str.length; i++) {
-      const char = str.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash; // Convert to 32-bit integer
+  /**
+   * Remove L2 entries and drop them from every instance's L1
+   */
+  async evictEntries(keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+
+    await this.store.remove(keys);
+    this.l1.evictL2Keys(keys);
+    await this.broadcast({ type: 'evict', keys });
+  }
+
+  /**
+   * Forget everything held in this process's L1 and tell other instances to do the same
+   */
+  async clearL1(): Promise<void> {
+    this.l1.clear();
+    await this.broadcast({ type: 'clear' });
+  }
+
+  /**
+   * Page through entries matching `filter`, most recently used first
+   */
+  async listEntries(filter: EntryFilter = {}, page = 1, pageSize = 20): Promise<EntryPage> {
+    const now = Date.now();
+    const matching = (await this.store.list())
+      .filter((entry) => matchesFilter(entry, filter, now))
+      .sort((a, b) => b.timestamp - a.timestamp);
+
+    const start = (page - 1) * pageSize;
+    return {
+      entries: matching.slice(start, start + pageSize),
+      total: matching.length,
+      page,
+      pageSize,
+    };
+  }
+
+  async getEntry(key: string): Promise<ListedEntry | null> {
+    const entry = await this.store.get(key);
+    return entry ? { ...entry, key } : null;
+  }
+
+  /**
+   * Evict every entry matching `filter` and return how many were removed
+   */
+  async purgeEntries(filter: EntryFilter): Promise<number> {
+    const now = Date.now();
+    const keys = (await this.store.list())
+      .filter((entry) => matchesFilter(entry, filter, now))
+      .map((entry) => entry.key);
+
+    await this.evictEntries(keys);
+    console.log(`🗑️ Purged ${keys.length} cache entries`);
+    return keys.length;
+  }
+
+  /**
+   * Entries nearest to free text in one partition, regardless of the hit threshold
+   */
+  async findNeighbours(
+    text: string,
+    partition: IndexPartition,
+    k = 10
+  ): Promise<(ListedEntry & { similarity: number })[]> {
+    const embedding = await this.embed(text);
+    const matches = await this.store.search(partition, embedding, k);
+
+    const neighbours: (ListedEntry & { similarity: number })[] = [];
+    for (const match of matches) {
+      const entry = await this.store.get(match.key);
+      if (entry) neighbours.push({ ...entry, key: match.key, similarity: match.similarity });
     }
-    return Math.abs(hash).toString(36);
+    return neighbours;
   }
 
-  private async cleanupOldEntries(redis: any): Promise<void> {
+  /**
+   * Copy every entry matching `filter`, embedding included, into a snapshot
+   * that `importSnapshot` can load on another instance
+   */
+  async exportSnapshot(filter: EntryFilter = {}): Promise<CacheSnapshot> {
+    const now = Date.now();
+    const entries: IndexedEntry[] = [];
+
+    for (const { key, ...entry } of await this.store.list()) {
+      if (!matchesFilter({ ...entry, key }, filter, now)) continue;
+
+      // Entries that expire between listing and reading are left out
+      const embedding = await this.store.getEmbedding(key, entry.embeddingDimension);
+      if (embedding) entries.push({ ...entry, embedding });
+    }
+
+    console.log(`📦 Exported ${entries.length} cache entries`);
+    return {
+      format: SNAPSHOT_FORMAT,
+      formatVersion: SNAPSHOT_FORMAT_VERSION,
+      exportedAt: now,
+      embeddingModel: this.embeddings.id,
+      entries,
+    };
+  }
+
+  /**
+   * Load entries from a snapshot under their original keys and versions.
+   * Entries already cached here are kept as they are. Imported entries from
+   * an older model or prompt are only served once migrated.
+   */
+  async importSnapshot(snapshot: CacheSnapshot): Promise<SnapshotImportReport> {
+    const report: SnapshotImportReport = { imported: 0, existing: 0, invalid: 0, outdated: 0 };
+
+    for (const entry of snapshot.entries) {
+      if (!isUsableEmbedding(entry.embedding, entry.embeddingDimension)) {
+        report.invalid++;
+        continue;
+      }
+
+      const key = entryKey(entry, entry.id);
+      if (await this.store.get(key)) {
+        report.existing++;
+        continue;
+      }
+
+      const policy = this.policies.resolve(entry.language, entry.suggestionType);
+      await this.store.upsert(key, entry, policy.ttlSeconds);
+      report.imported++;
+
+      const listed = { ...entry, key };
+      if (this.migrationStatus(listed, this.generationOf(listed)) !== 'current') report.outdated++;
+    }
+
+    // A large import can push partitions past their limits at once
+    this.lastEnforced = Date.now();
+    await this.enforcePolicies();
+
+    console.log(
+      `📦 Imported ${report.imported} cache entries (${report.existing} existing, ${report.invalid} invalid, ${report.outdated} outdated)`
+    );
+    return report;
+  }
+
+  /**
+   * Report entries per cache version and optionally migrate them:
+   * - `reembed`: entries whose model and prompt are current but whose
+   *   embeddings came from another embedding model are re-embedded in place
+   * - `drop`: every entry outside the current versions is evicted
+   */
+  async migrate(mode: MigrationMode = 'plan'): Promise<MigrationReport> {
+    const entries = await this.store.list();
+    const partitions = new Map<string, VersionPartition>();
+    const report: MigrationReport = { mode, partitions: [], reembedded: 0, dropped: 0 };
+    const toDrop: string[] = [];
+
+    for (const entry of entries) {
+      const generation = this.generationOf(entry);
+      const status = this.migrationStatus(entry, generation);
+      const tag = entry.version || `unversioned-${generation.promptVersion}`;
+
+      const partition = partitions.get(tag) ?? {
+        ...generation,
+        embeddingModel: entry.embeddingModel || 'unknown',
+        embeddingDimension: entry.embeddingDimension,
+        version: tag,
+        entries: 0,
+        status,
+      };
+      partition.entries++;
+      partitions.set(tag, partition);
+
+      if (status === 'current') continue;
+
+      if (mode === 'drop') {
+        toDrop.push(entry.key);
+      } else if (mode === 'reembed' && status === 'reembed') {
+        await this.reembed(entry, generation);
+        report.reembedded++;
+      }
+    }
+
+    if (toDrop.length > 0) {
+      await this.evictEntries(toDrop);
+      report.dropped = toDrop.length;
+    }
+
+    report.partitions = [...partitions.values()];
+    console.log(`🧭 Cache migration (${mode}): ${report.reembedded} re-embedded, ${report.dropped} dropped`);
+    return report;
+  }
+
+  private generationOf(entry: ListedEntry): GenerationStamp {
+    return entry.version
+      ? { model: entry.model, promptVersion: entry.promptVersion }
+      : legacyGeneration(entry.language);
+  }
+
+  private migrationStatus(entry: ListedEntry, generation: GenerationStamp): VersionPartition['status'] {
+    const current = currentGeneration(entry.language);
+    if (generation.model !== current.model || generation.promptVersion !== current.promptVersion) {
+      return 'stale';
+    }
+    return entry.version === versionTag({ ...current, embeddingModel: this.embeddings.id }) ? 'current' : 'reembed';
+  }
+
+  // Move an entry into the current version with a fresh embedding, keeping its stats
+  private async reembed(entry: ListedEntry, generation: GenerationStamp): Promise<void> {
+    const cacheVersion: CacheVersion = { ...generation, embeddingModel: this.embeddings.id };
+    const version = versionTag(cacheVersion);
+    const { key, ...stored } = entry;
+    const id = hashContext(stored.context, stored.suggestionType, version, stored.conversation);
+    const embedding = await this.embed(stored.context);
+
+    await this.store.upsert(
+      entryKey(stored, id),
+      {
+        ...stored,
+        ...cacheVersion,
+        id,
+        version,
+        embedding,
+        embeddingDimension: embedding.length,
+      },
+      this.policies.resolve(stored.language, stored.suggestionType).ttlSeconds
+    );
+    await this.evictEntries([key]);
+  }
+
+  private async broadcast(message: Parameters<typeof publishInvalidation>[0]): Promise<void> {
+    // Pub/sub only matters while L2 is shared through Redis
+    if (this.store.backend !== 'redis') return;
+    await publishInvalidation(message);
+  }
+
+  private readonly handleInvalidation = (message: InvalidationMessage): void => {
+    if (message.type === 'clear') {
+      this.l1.clear();
+    } else if (message.type === 'policy') {
+      try {
+        this.policies.reload();
+      } catch (error) {
+        console.error('Failed to reload cache policy:', error);
+      }
+    } else {
+      this.l1.evictL2Keys(message.keys);
+    }
+  };
+
+  private ensureInvalidationSubscription(): void {
+    if (this.store.backend !== 'redis') return;
+    void onInvalidation(this.handleInvalidation);
+  }
+
+  /**
+   * Trim every language and suggestion type pair to its policy's maxEntries
+   * using its eviction strategy, then evict by the default strategy until the
+   * estimated size of the cache fits the memory budget
+   */
+  private async enforcePolicies(): Promise<void> {
     try {
-      const allKeys = await redis.keys(`${this.CACHE_PREFIX}*`);
-      
-      if (allKeys.length <= this.MAX_CACHE_SIZE) return;
-      
-      console.log(`🧹 Cleaning up cache (${allKeys.length} entries)`);
-      
-      // Get all entries with timestamps
-      const entries: { key: string; timestamp: number; hitCount: number }[] = [];
-      
-      for (const key of allKeys) {
-        const data = await redis.get(key);
-        if (data) {
-          try {
-            const entry = JSON.parse(data);
-            entries.push({
-              key,
-              timestamp: entry.timestamp || 0,
-              hitCount: entry.hitCount || 0
-            });
-          } catch (error) {
-            // Delete corrupted entries
-            await redis.del(key);
-          }
-        }
+      const config = this.policies.current();
+      const entries = await this.store.list();
+      const groups = new Map<string, ListedEntry[]>();
+      for (const entry of entries) {
+        const group = `${entry.language}\n${entry.suggestionType}`;
+        const members = groups.get(group);
+        if (members) members.push(entry);
+        else groups.set(group, [entry]);
       }
-      
-      // Sort by hit count (ascending) then by timestamp (ascending)
-      entries.sort((a, b) => {
-        if (a.hitCount !== b.hitCount) {
-          return a.hitCount - b.hitCount;
+
+      const toDelete = new Set<string>();
+      for (const group of groups.values()) {
+        const policy = this.policies.resolve(group[0].language, group[0].suggestionType);
+        if (group.length <= policy.maxEntries) continue;
+
+        group
+          .sort(evictionOrder(policy.eviction))
+          .slice(0, group.length - policy.maxEntries)
+          .forEach((entry) => toDelete.add(entry.key));
+      }
+
+      const remaining = entries.filter((entry) => !toDelete.has(entry.key));
+      let bytes = remaining.reduce((total, entry) => total + entrySize(entry), 0);
+      if (bytes > config.memoryBudgetBytes) {
+        for (const entry of remaining.sort(evictionOrder(config.defaults.eviction))) {
+          if (bytes <= config.memoryBudgetBytes) break;
+          toDelete.add(entry.key);
+          bytes -= entrySize(entry);
         }
-        return a.timestamp - b.timestamp;
-      });
-      
-      // Delete oldest/least used entries
-      const toDelete = entries.slice(0, entries.length - this.MAX_CACHE_SIZE + 100);
-      if (toDelete.length > 0) {
-        await redis.del(toDelete.map(e => e.key));
-        console.log(`🗑️ Deleted ${toDelete.length} old cache entries`);
       }
-      
+
+      if (toDelete.size > 0) {
+        await this.evictEntries([...toDelete]);
+        console.log(`🗑️ Evicted ${toDelete.size} of ${entries.length} cache entries to meet the cache policy`);
+      }
     } catch (error) {
-      console.error('Error during cache cleanup:', error);
+      console.error('Error enforcing cache policy:', error);
     }
   }
 
-  async getCacheStats(): Promise<{
-    totalEntries: number;
-    entriesByLanguage: Record<string, number>;
-    oldestEntry: number;
-    newestEntry: number;
-  }> {
+  getTierStats(): TierStats {
+    return {
+      l1: { ...this.counters.l1, size: this.l1.size() },
+      l2: { ...this.counters.l2 },
+    };
+  }
+
+  async getCacheStats(): Promise<IndexStats & { backend: CacheBackend; tiers: TierStats }> {
     try {
-      const redis = await getRedisClient();
-      const allKeys = await redis.keys(`${this.CACHE_PREFIX}*`);
-      
-      const stats = {
-        totalEntries: allKeys.length,
-        entriesByLanguage: {} as Record<string, number>,
-        oldestEntry: Date.now(),
-        newestEntry: 0
-      };
-      
-      for (const key of allKeys) {
-        const data = await redis.get(key);
-        if (data) {
-          try {
-            const entry = JSON.parse(data);
-            stats.entriesByLanguage[entry.language] = 
-              (stats.entriesByLanguage[entry.language] || 0) + 1;
-            
-            if (entry.timestamp < stats.oldestEntry) {
-              stats.oldestEntry = entry.timestamp;
-            }
-            if (entry.timestamp > stats.newestEntry) {
-              stats.newestEntry = entry.timestamp;
-            }
-          } catch (error) {
-            // Skip corrupted entries
-          }
-        }
-      }
+      const stats = await this.store.stats();
       
-      return stats;
+      return { ...stats, backend: this.store.backend, tiers: this.getTierStats() };
     } catch (error) {
       console.error('Error getting cache stats:', error);
       return {
         totalEntries: 0,
         entriesByLanguage: {},
         oldestEntry: 0,
-        newestEntry: 0
+        newestEntry: 0,
+        backend: this.store.backend,
+        tiers: this.getTierStats()
       };
     }
   }
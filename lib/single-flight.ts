@@ -0,0 +1,514 @@
+import { randomUUID } from 'crypto';
+import { getRedisClient, getRedisSubscriber, redisEnabled, RedisUnavailableError } from './redis-client';
+
+/**
+ * Single-flight coalescing for streamed AI generations.
+ *
+ * The first request for a key becomes the leader and runs the producer; any
+ * identical request that arrives while it is running attaches to the same
+ * flight and receives every SSE frame from the start. Across instances the
+ * leader is elected with a Redis lock and frames are relayed through a Redis
+ * list (replay) plus a pub/sub channel (live).
+ *
+ * Every flight has a generation id. A client that lost its connection can
+ * resume the generation by id for a short while after it ends, skipping the
+ * frames it already received.
+ *
+ * A flight nobody reads any more is cancelled: the producer's signal aborts,
+ * which stops the model request, once the last reader has been gone for the
+ * flight's grace period.
+ */
+
+type FlightEvent =
+  | { type: 'frame'; frame: string }
+  | { type: 'end'; error?: unknown };
+
+type FlightListener = (event: FlightEvent) => void;
+
+// `joined` when the reader did not start the generation, in this process or any other
+export type FlightSettler = (frames: string[], joined: boolean) => void;
+
+interface Flight {
+  key: string;
+  // Shared by every instance streaming this generation
+  id: string;
+  frames: string[];
+  listeners: Set<FlightListener>;
+  // Called with every frame when the flight ends, one per request that joined;
+  // true for those that joined a generation already running
+  settlers: Map<FlightSettler, boolean>;
+  ended: boolean;
+  error?: unknown;
+  // Aborts the producer, or stops following for a flight led elsewhere
+  controller: AbortController;
+  abandonAfterMs: number;
+  abandonTimer: ReturnType<typeof setTimeout> | null;
+  // Led here with Redis, so instances following it count as readers
+  distributed: boolean;
+}
+
+// Relayed between instances; seq orders replayed and live messages
+type RelayMessage = { seq: number; frame: string } | { seq: number; done: true };
+
+export type FlightProducer = (
+  send: (frame: string) => void,
+  generationId: string,
+  // Aborts when nobody reads the flight any more
+  signal: AbortSignal
+) => Promise<void>;
+
+export interface FlightStreamOptions {
+  // The reading request; when it aborts, its stream closes and stops counting
+  // as a reader. The generation itself is only cancelled once no reader is left.
+  signal?: AbortSignal;
+  // How long a flight without readers keeps going, e.g. to let a dropped client resume
+  abandonAfterMs?: number;
+  // Called once with every frame of the generation when it ends, even if this
+  // reader left before; for charging the request that started it and
+  // recording the others
+  onSettled?: FlightSettler;
+}
+
+const KEY_PREFIX = 'flight:';
+const LOCK_TTL_MS = 2 * 60 * 1000;
+// How long a finished generation can still be resumed
+const BUFFER_TTL_SECONDS = 30;
+const FOLLOWER_IDLE_TIMEOUT_MS = 60 * 1000;
+// How often an abandoned flight checks again while other instances still read it
+const REMOTE_READER_POLL_MS = 1000;
+
+export class SingleFlight {
+  private flights = new Map<string, Flight>();
+  // By generation id, including finished ones until their resume window closes
+  private generations = new Map<string, Flight>();
+
+  /**
+   * Stream the flight for `key`, starting it with `producer` if nobody else
+   * is generating the same thing right now.
+   */
+  stream(key: string, producer: FlightProducer, options: FlightStreamOptions = {}): ReadableStream<Uint8Array> {
+    return this.toStream(
+      (listener) => this.attach(key, producer, listener, options),
+      options.signal
+    );
+  }
+
+  /**
+   * Stream generation `generationId` from its frame number `fromFrame` on
+   * (0 replays everything). Null when the generation is unknown or its resume
+   * window has closed.
+   */
+  async resume(
+    generationId: string,
+    fromFrame: number,
+    options: Pick<FlightStreamOptions, 'signal'> = {}
+  ): Promise<ReadableStream<Uint8Array> | null> {
+    const flight = this.generations.get(generationId) ?? (await this.followGeneration(generationId));
+    if (!flight) return null;
+
+    return this.toStream((listener) => {
+      flight.frames.slice(fromFrame).forEach((frame) => listener({ type: 'frame', frame }));
+      if (flight.ended) {
+        listener({ type: 'end', error: flight.error });
+        return () => {};
+      }
+      return this.listen(flight, listener);
+    }, options.signal);
+  }
+
+  /**
+   * Number of requests currently attached to the flight for `key`
+   */
+  subscriberCount(key: string): number {
+    return this.flights.get(key)?.listeners.size ?? 0;
+  }
+
+  private toStream(
+    subscribe: (listener: FlightListener) => () => void,
+    signal?: AbortSignal
+  ): ReadableStream<Uint8Array> {
+    const encoder = new TextEncoder();
+    let detach: (() => void) | null = null;
+    let closed = false;
+
+    return new ReadableStream<Uint8Array>({
+      start: (controller) => {
+        if (signal?.aborted) {
+          controller.close();
+          return;
+        }
+
+        detach = subscribe((event) => {
+          if (closed) return;
+          if (event.type === 'frame') {
+            controller.enqueue(encoder.encode(event.frame));
+            return;
+          }
+          closed = true;
+          if (event.error) {
+            controller.error(event.error);
+          } else {
+            controller.close();
+          }
+        });
+
+        signal?.addEventListener(
+          'abort',
+          () => {
+            detach?.();
+            if (closed) return;
+            closed = true;
+            controller.close();
+          },
+          { once: true }
+        );
+      },
+      cancel: () => {
+        closed = true;
+        detach?.();
+      },
+    });
+  }
+
+  private attach(
+    key: string,
+    producer: FlightProducer,
+    listener: FlightListener,
+    { abandonAfterMs = 0, onSettled }: FlightStreamOptions
+  ): () => void {
+    const existing = this.flights.get(key);
+
+    if (existing) {
+      console.log(`🔗 Joined in-flight generation (${existing.listeners.size + 1} waiting)`);
+      if (onSettled) existing.settlers.set(onSettled, true);
+      existing.frames.forEach((frame) => listener({ type: 'frame', frame }));
+      return this.listen(existing, listener);
+    }
+
+    // Registered synchronously so concurrent requests in this process join it
+    const flight = this.createFlight(key, randomUUID(), abandonAfterMs);
+    if (onSettled) flight.settlers.set(onSettled, false);
+    this.flights.set(key, flight);
+    const detach = this.listen(flight, listener);
+
+    void this.run(key, flight, producer);
+
+    return detach;
+  }
+
+  private createFlight(key: string, id: string, abandonAfterMs: number): Flight {
+    return {
+      key,
+      id,
+      frames: [],
+      listeners: new Set(),
+      settlers: new Map(),
+      ended: false,
+      controller: new AbortController(),
+      abandonAfterMs,
+      abandonTimer: null,
+      distributed: false,
+    };
+  }
+
+  // Add a reader; the returned function removes it again
+  private listen(flight: Flight, listener: FlightListener): () => void {
+    flight.listeners.add(listener);
+    if (flight.abandonTimer) {
+      clearTimeout(flight.abandonTimer);
+      flight.abandonTimer = null;
+    }
+
+    return () => {
+      if (flight.listeners.delete(listener)) {
+        this.scheduleAbandon(flight, flight.abandonAfterMs);
+      }
+    };
+  }
+
+  /**
+   * Cancel a flight once it has had no readers for `delayMs`, unless a reader
+   * comes back in the meantime or other instances still follow it.
+   */
+  private scheduleAbandon(flight: Flight, delayMs: number): void {
+    if (flight.ended || flight.listeners.size > 0 || flight.abandonTimer) return;
+
+    flight.abandonTimer = setTimeout(async () => {
+      flight.abandonTimer = null;
+      if (flight.ended || flight.listeners.size > 0) return;
+
+      if (flight.distributed && (await this.remoteReaders(flight.id)) > 0) {
+        this.scheduleAbandon(flight, Math.max(flight.abandonAfterMs, REMOTE_READER_POLL_MS));
+        return;
+      }
+      if (flight.ended || flight.listeners.size > 0) return;
+
+      console.log(`🛑 Nobody is reading generation ${flight.id}, cancelling it`);
+      // Identical requests from now on start a fresh generation
+      if (this.flights.get(flight.key) === flight) {
+        this.flights.delete(flight.key);
+      }
+      flight.controller.abort();
+    }, delayMs);
+  }
+
+  // Instances following a generation led here, counted by their channel subscriptions
+  private async remoteReaders(generationId: string): Promise<number> {
+    const channel = `${KEY_PREFIX}channel:${generationId}`;
+    try {
+      const redis = await getRedisClient();
+      const counts = await redis.pubSubNumSub(channel);
+      return Number(counts[channel] ?? 0);
+    } catch (error) {
+      console.warn('⚠️ Failed to count remote generation readers:', error);
+      return 0;
+    }
+  }
+
+  private async run(key: string, flight: Flight, producer: FlightProducer): Promise<void> {
+    const leadership = await this.acquireLeadership(key, flight.id);
+
+    if (typeof leadership === 'object') {
+      // Take on the leader's id so resumes work against any instance
+      flight.id = leadership.following;
+      // The leader's instance charges the request that started it
+      flight.settlers.forEach((_, settle) => flight.settlers.set(settle, true));
+      this.generations.set(flight.id, flight);
+      await this.follow(flight);
+      return;
+    }
+
+    this.generations.set(flight.id, flight);
+    const distributed = leadership === 'leader';
+    flight.distributed = distributed;
+    let error: unknown;
+
+    try {
+      await producer(
+        (frame) => {
+          this.emit(flight, frame);
+          if (distributed) {
+            this.relay(flight.id, { seq: flight.frames.length - 1, frame });
+          }
+        },
+        flight.id,
+        flight.controller.signal
+      );
+    } catch (err) {
+      error = err;
+    } finally {
+      if (distributed) {
+        this.relay(flight.id, { seq: flight.frames.length, done: true });
+        void this.releaseLeadership(key, flight.id);
+      }
+      this.end(flight, error);
+    }
+  }
+
+  private emit(flight: Flight, frame: string): void {
+    flight.frames.push(frame);
+    flight.listeners.forEach((listener) => listener({ type: 'frame', frame }));
+  }
+
+  private end(flight: Flight, error?: unknown): void {
+    if (flight.ended) return;
+    flight.ended = true;
+    flight.error = error;
+    if (flight.abandonTimer) {
+      clearTimeout(flight.abandonTimer);
+      flight.abandonTimer = null;
+    }
+
+    if (this.flights.get(flight.key) === flight) {
+      this.flights.delete(flight.key);
+    }
+    flight.listeners.forEach((listener) => listener({ type: 'end', error }));
+    flight.listeners.clear();
+    flight.settlers.forEach((joined, settle) => {
+      try {
+        settle(flight.frames, joined);
+      } catch (err) {
+        console.warn('⚠️ Failed to settle generation reader:', err);
+      }
+    });
+    flight.settlers.clear();
+
+    setTimeout(() => {
+      if (this.generations.get(flight.id) === flight) {
+        this.generations.delete(flight.id);
+      }
+    }, BUFFER_TTL_SECONDS * 1000);
+  }
+
+  /**
+   * 'leader' when this instance holds the Redis lock, `{ following }` with the
+   * leader's generation id when another instance does, 'local' when Redis is
+   * unavailable. The lock's value is the generation id.
+   */
+  private async acquireLeadership(
+    key: string,
+    generationId: string
+  ): Promise<'leader' | 'local' | { following: string }> {
+    if (!redisEnabled()) return 'local';
+
+    try {
+      const redis = await getRedisClient();
+      const acquired = await redis.set(`${KEY_PREFIX}lock:${key}`, generationId, {
+        condition: 'NX',
+        expiration: { type: 'PX', value: LOCK_TTL_MS },
+      });
+      if (acquired) {
+        return 'leader';
+      }
+
+      const leaderId = await redis.get(`${KEY_PREFIX}lock:${key}`);
+      // The leader finished between the two commands; generate here instead
+      return leaderId ? { following: leaderId } : 'local';
+    } catch (error) {
+      // The client already logged the outage when it started
+      if (!(error instanceof RedisUnavailableError)) {
+        console.warn('⚠️ Single-flight lock unavailable, coalescing in-process only:', error);
+      }
+      return 'local';
+    }
+  }
+
+  private async releaseLeadership(key: string, generationId: string): Promise<void> {
+    try {
+      const redis = await getRedisClient();
+      await redis
+        .multi()
+        .del(`${KEY_PREFIX}lock:${key}`)
+        .expire(`${KEY_PREFIX}buffer:${generationId}`, BUFFER_TTL_SECONDS)
+        .exec();
+    } catch (error) {
+      console.warn('⚠️ Failed to release single-flight lock:', error);
+    }
+  }
+
+  private relay(generationId: string, message: RelayMessage): void {
+    const raw = JSON.stringify(message);
+
+    // Not awaited: commands on one connection are sent in order
+    getRedisClient()
+      .then((redis) =>
+        redis
+          .multi()
+          .rPush(`${KEY_PREFIX}buffer:${generationId}`, raw)
+          .expire(`${KEY_PREFIX}buffer:${generationId}`, LOCK_TTL_MS / 1000)
+          .publish(`${KEY_PREFIX}channel:${generationId}`, raw)
+          .exec()
+      )
+      .catch((error) => console.warn('⚠️ Failed to relay generation frame:', error));
+  }
+
+  /**
+   * Mirror a generation from the Redis buffer of the instance that led it, so
+   * it can be resumed here. Null when there is no buffer (Redis down, unknown
+   * id, or expired).
+   */
+  private async followGeneration(generationId: string): Promise<Flight | null> {
+    if (!redisEnabled()) return null;
+
+    try {
+      const redis = await getRedisClient();
+      if (!(await redis.exists(`${KEY_PREFIX}buffer:${generationId}`))) {
+        return null;
+      }
+    } catch (error) {
+      console.warn('⚠️ Generation buffer unavailable, cannot resume:', error);
+      return null;
+    }
+
+    const flight = this.createFlight('', generationId, 0);
+    this.generations.set(generationId, flight);
+    void this.follow(flight);
+    return flight;
+  }
+
+  /**
+   * Mirror a flight led by another instance: subscribe first, then replay the
+   * buffer, delivering messages strictly in seq order.
+   */
+  private async follow(flight: Flight): Promise<void> {
+    const channel = `${KEY_PREFIX}channel:${flight.id}`;
+    const pending = new Map<number, RelayMessage>();
+    let nextSeq = 0;
+    let idleTimer: NodeJS.Timeout | null = null;
+
+    console.log('🔗 Following generation led by another instance');
+
+    return new Promise<void>((resolve) => {
+      let subscriber: Awaited<ReturnType<typeof getRedisSubscriber>> | null = null;
+
+      const finish = (error?: unknown) => {
+        if (idleTimer) clearTimeout(idleTimer);
+        subscriber?.unsubscribe(channel, onMessage).catch(() => {});
+        this.end(flight, error);
+        resolve();
+      };
+
+      const resetIdleTimer = () => {
+        if (idleTimer) clearTimeout(idleTimer);
+        if (flight.ended) return;
+        idleTimer = setTimeout(
+          () => finish(new Error('Timed out waiting for coalesced generation')),
+          FOLLOWER_IDLE_TIMEOUT_MS
+        );
+      };
+
+      const deliver = (message: RelayMessage) => {
+        if (message.seq < nextSeq || flight.ended) return;
+        pending.set(message.seq, message);
+        resetIdleTimer();
+
+        while (pending.has(nextSeq)) {
+          const next = pending.get(nextSeq)!;
+          pending.delete(nextSeq);
+          nextSeq++;
+
+          if ('done' in next) {
+            finish();
+            return;
+          }
+          this.emit(flight, next.frame);
+        }
+      };
+
+      const onMessage = (raw: string) => deliver(JSON.parse(raw));
+
+      // Nobody here reads it any more; a later resume follows it afresh
+      flight.controller.signal.addEventListener(
+        'abort',
+        () => {
+          if (this.generations.get(flight.id) === flight) {
+            this.generations.delete(flight.id);
+          }
+          finish();
+        },
+        { once: true }
+      );
+
+      (async () => {
+        try {
+          subscriber = await getRedisSubscriber();
+          await subscriber.subscribe(channel, onMessage);
+          if (flight.ended) {
+            // Abandoned while subscribing
+            await subscriber.unsubscribe(channel, onMessage);
+            return;
+          }
+
+          const redis = await getRedisClient();
+          const backlog = await redis.lRange(`${KEY_PREFIX}buffer:${flight.id}`, 0, -1);
+          backlog.forEach((raw) => deliver(JSON.parse(raw)));
+          resetIdleTimer();
+        } catch (error) {
+          finish(error);
+        }
+      })();
+    });
+  }
+}
+
+export const generationFlights = new SingleFlight();
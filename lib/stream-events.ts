@@ -0,0 +1,184 @@
+import { z } from 'zod';
+
+/**
+ * Server-sent event protocol shared by the streaming AI routes and the hooks
+ * that read them. Every frame carries an `id` (sequential per stream), an
+ * `event` line naming its type, and the event as JSON in `data`:
+ *
+ *   id: 3
+ *   event: delta
+ *   data: {"type":"delta","text":"const ","candidate":0}
+ *
+ * A stream opens with `start` and ends with exactly one `done` or `error`.
+ * The ids let a client that lost the connection say which event it saw last:
+ * event `n` is frame `n` of its generation, so a resume sending
+ * `Last-Event-ID: n` picks up at event `n + 1`.
+ */
+
+const candidateIndex = z.number().int().nonnegative();
+
+const candidateSchema = z.object({
+  suggestion: z.string(),
+  // Entry to report accept/reject feedback to; null for answers that were not cached
+  cacheKey: z.string().nullable(),
+  cached: z.boolean(),
+});
+
+export const streamEventSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('start'),
+    model: z.string(),
+    // Resumable generation this stream belongs to, see SingleFlight.resume
+    generation: z.string().optional(),
+    // Alternatives the stream will carry, for completions
+    candidates: z.number().int().positive().optional(),
+  }),
+  // Waiting for a free model slot; sent again as the place in line moves up
+  z.object({
+    type: z.literal('queued'),
+    position: z.number().int().positive(),
+    candidate: candidateIndex.optional(),
+  }),
+  z.object({
+    type: z.literal('delta'),
+    text: z.string(),
+    candidate: candidateIndex.optional(),
+  }),
+  z.object({
+    type: z.literal('usage'),
+    // Tokens generated for the answer
+    tokens: z.number().int().nonnegative(),
+    promptTokens: z.number().int().nonnegative().optional(),
+    // Counted locally because the model server reported nothing
+    estimated: z.boolean().optional(),
+  }),
+  z.object({
+    type: z.literal('cache-hit'),
+    cacheKey: z.string().nullable(),
+    tier: z.enum(['l1', 'exact', 'semantic']).optional(),
+    score: z.number().nullable().optional(),
+    candidate: candidateIndex.optional(),
+  }),
+  // Something went wrong that the client can live with, e.g. one failed candidate
+  z.object({
+    type: z.literal('warning'),
+    message: z.string(),
+    candidate: candidateIndex.optional(),
+  }),
+  z.object({
+    type: z.literal('error'),
+    message: z.string(),
+  }),
+  z.object({
+    type: z.literal('done'),
+    responseTime: z.number().nonnegative(),
+    cached: z.boolean(),
+    cacheKey: z.string().nullable().optional(),
+    // Final texts, which replace the streamed deltas
+    suggestion: z.string().optional(),
+    candidates: z.array(candidateSchema).optional(),
+  }),
+]);
+
+export type StreamEvent = z.infer<typeof streamEventSchema>;
+export type StreamEventType = StreamEvent['type'];
+export type StreamedCandidate = z.infer<typeof candidateSchema>;
+
+export interface ReceivedEvent {
+  id: number;
+  event: StreamEvent;
+}
+
+export const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream',
+  'Cache-Control': 'no-cache',
+  Connection: 'keep-alive',
+};
+
+export function encodeEvent(event: StreamEvent, id: number): string {
+  return `id: ${id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * Encoder for one stream: numbers its frames 1, 2, 3... Events are validated
+ * so a route cannot put a frame on the wire that clients would drop.
+ */
+export function createEventEncoder(): (event: StreamEvent) => string {
+  let lastId = 0;
+  return (event) => encodeEvent(streamEventSchema.parse(event), ++lastId);
+}
+
+/**
+ * Stream of a fixed list of events, for answers that are ready up front such
+ * as cache hits
+ */
+export function eventStream(events: StreamEvent[]): ReadableStream<Uint8Array> {
+  const encode = createEventEncoder();
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      events.forEach((event) => controller.enqueue(encoder.encode(encode(event))));
+      controller.close();
+    },
+  });
+}
+
+/**
+ * Parse one SSE frame (the text between blank lines). Returns null for
+ * comments, frames without data and events that do not match the schema.
+ */
+export function decodeEvent(frame: string): ReceivedEvent | null {
+  let id = 0;
+  const data: string[] = [];
+
+  for (const line of frame.split('\n')) {
+    const separator = line.indexOf(':');
+    if (separator <= 0) continue;
+
+    const field = line.slice(0, separator);
+    const value = line.slice(separator + 1).replace(/^ /, '');
+    if (field === 'id') id = Number(value) || 0;
+    else if (field === 'data') data.push(value);
+  }
+  if (data.length === 0) return null;
+
+  let json: unknown;
+  try {
+    json = JSON.parse(data.join('\n'));
+  } catch {
+    console.warn('Failed to parse stream event:', frame);
+    return null;
+  }
+
+  const result = streamEventSchema.safeParse(json);
+  if (!result.success) {
+    console.warn('Ignoring unknown stream event:', json);
+    return null;
+  }
+  return { id, event: result.data };
+}
+
+/**
+ * Events from a streamed response body as they arrive. Frames split across
+ * reads are buffered until complete.
+ */
+export async function* readEvents(reader: ReadableStreamDefaultReader<Uint8Array>): AsyncGenerator<ReceivedEvent> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const frames = buffer.split('\n\n');
+    buffer = frames.pop() || '';
+    for (const frame of frames) {
+      const received = decodeEvent(frame);
+      if (received) yield received;
+    }
+  }
+
+  const received = decodeEvent(buffer);
+  if (received) yield received;
+}
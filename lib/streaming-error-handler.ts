@@ -17,12 +17,41 @@ export const StreamingErrorCodes = {
   ABORT_ERROR: 'ABORT_ERROR',
   SERVER_ERROR: 'SERVER_ERROR',
   MODEL_ERROR: 'MODEL_ERROR',
+  RATE_LIMITED: 'RATE_LIMITED',
 } as const;
 
+// The server turned the request away (HTTP 429); retrying before `retryAfterSeconds` is pointless
+export class ThrottledError extends StreamingError {
+  constructor(
+    message: string,
+    public retryAfterSeconds: number
+  ) {
+    super(message, StreamingErrorCodes.RATE_LIMITED, false);
+    this.name = 'ThrottledError';
+  }
+}
+
+/**
+ * Build a ThrottledError from a 429 response, using the server's explanation
+ * and its Retry-After header
+ */
+export async function throttledError(response: Response): Promise<ThrottledError> {
+  const body = await response.json().catch(() => null);
+  const retryAfterSeconds = Number(response.headers.get('Retry-After')) || body?.retryAfter || 60;
+  return new ThrottledError(body?.error || 'Too many requests. Please wait a moment.', retryAfterSeconds);
+}
+
+// Automatic retries of a failed stream; retry n waits n * RETRY_DELAY_MS first
+export const MAX_RETRIES = 3;
+export const RETRY_DELAY_MS = 1000;
+
+// Time from a failure to the last retry, not counting the failed attempts themselves
+export const RETRY_WINDOW_MS = RETRY_DELAY_MS * (MAX_RETRIES * (MAX_RETRIES + 1)) / 2;
+
 export class StreamingErrorHandler {
   private retryAttempts = new Map<string, number>();
-  private readonly maxRetries = 3;
-  private readonly retryDelay = 1000; // 1 second
+  private readonly maxRetries = MAX_RETRIES;
+  private readonly retryDelay = RETRY_DELAY_MS;
 
   /**
    * Handle streaming errors with automatic retry logic
@@ -92,8 +121,18 @@ export class StreamingErrorHandler {
     userMessage: string;
     technicalMessage: string;
   } {
-    // Network/Connection errors
-    if (error.name === 'TypeError' && error.message.includes('fetch')) {
+    // Raised by stream readers that already know whether trying again can help
+    if (error instanceof StreamingError) {
+      return {
+        code: error.code,
+        recoverable: error.recoverable,
+        userMessage: error.recoverable ? "Connection lost. Resuming..." : error.message,
+        technicalMessage: `${error.code}: ${error.message}`,
+      };
+    }
+
+    // Network/Connection errors, including a response body cut off mid-stream
+    if (error.name === 'TypeError' && /fetch|network|body stream|load failed/i.test(error.message)) {
       return {
         code: StreamingErrorCodes.NETWORK_ERROR,
         recoverable: true,
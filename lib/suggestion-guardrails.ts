@@ -0,0 +1,137 @@
+import ts from 'typescript';
+
+export type GuardrailVerdict = { ok: true } | { ok: false; reason: string };
+
+// How the model stream behind an answer ended
+export interface StreamOutcome {
+  // The final `done` message arrived; false when the stream broke off
+  finished: boolean;
+  // The provider's finish reason: `stop`, or `length` when maxTokens cut the answer off
+  doneReason?: string;
+}
+
+interface CompletionInput {
+  fileContent: string;
+  cursorLine: number;
+  cursorColumn: number;
+  language: string;
+  fileName?: string;
+}
+
+// Text our routes or the model server produce when generation failed, never a real answer
+const ERROR_MARKERS = [
+  /AI suggestion unavailable/i,
+  /Failed to generate (?:a )?response/i,
+  /HTTP error! status: \d+/,
+  /Request timeout: AI model/i,
+  /model ["'][^"']+["'] not found/i,
+  /^\s*\{\s*"error"\s*:/,
+];
+
+// Openers of explanations rather than code
+const PROSE_OPENER = /^(Sure|Certainly|Here'?s|Here is|This (?:code|will|is)|The (?:code|above|following)|In this|I(?:'ve| have| will|'ll))\b/i;
+
+// A sentence: capitalized words and punctuation, none of the symbols code is made of
+const PROSE_LINE = /^[A-Z][a-z']*(?:[\s,-]+[A-Za-z'`]+){3,}[.!?:]?$/;
+
+// Comments are code; prose inside them is fine
+const COMMENT_LINE = /^(\/\/|\/\*|\*|#|<!--)/;
+
+// Larger files are not worth parsing on every cache write
+const MAX_SYNTAX_CHECK_CHARS = 200 * 1024;
+
+const SCRIPT_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.mts', '.cts'];
+
+function errorMarker(text: string): string | null {
+  const marker = ERROR_MARKERS.find((pattern) => pattern.test(text));
+  return marker ? text.match(marker)![0] : null;
+}
+
+function looksLikeProse(text: string): boolean {
+  const lines = text.split('\n').map((line) => line.trim()).filter(Boolean);
+  if (lines.length === 0) return false;
+  if (PROSE_OPENER.test(lines[0])) return true;
+
+  const prose = lines.filter((line) => !COMMENT_LINE.test(line) && PROSE_LINE.test(line));
+  return prose.length * 2 >= lines.length;
+}
+
+// File name the TypeScript parser should treat the file as, or null for other languages
+function scriptFileName({ fileName, language }: CompletionInput): string | null {
+  const extension = fileName ? fileName.slice(fileName.lastIndexOf('.')).toLowerCase() : '';
+  if (SCRIPT_EXTENSIONS.includes(extension)) return `file${extension}`;
+  if (language === 'TypeScript') return 'file.tsx';
+  if (language === 'JavaScript') return 'file.jsx';
+  return null;
+}
+
+function syntaxErrors(text: string, fileName: string): readonly ts.Diagnostic[] {
+  const { diagnostics } = ts.transpileModule(text, {
+    fileName,
+    reportDiagnostics: true,
+    compilerOptions: { jsx: ts.JsxEmit.Preserve, target: ts.ScriptTarget.Latest },
+  });
+  return diagnostics ?? [];
+}
+
+function spliceAtCursor({ fileContent, cursorLine, cursorColumn }: CompletionInput, suggestion: string): string {
+  const lines = fileContent.split('\n');
+  const line = lines[cursorLine] ?? '';
+  lines[cursorLine] = line.slice(0, cursorColumn) + suggestion + line.slice(cursorColumn);
+  return lines.join('\n');
+}
+
+/**
+ * Decide whether a streamed code completion is safe to cache. JavaScript and
+ * TypeScript completions are spliced into the file at the cursor and parsed;
+ * a completion that adds syntax errors is rejected. The file the user is
+ * typing in is usually broken already, so only new errors count.
+ */
+export function checkCompletion(input: CompletionInput, suggestion: string, stream: StreamOutcome): GuardrailVerdict {
+  if (!stream.finished) {
+    return { ok: false, reason: 'stream ended before the model finished' };
+  }
+
+  const marker = errorMarker(suggestion);
+  if (marker) {
+    return { ok: false, reason: `contains error text "${marker}"` };
+  }
+
+  if (looksLikeProse(suggestion)) {
+    return { ok: false, reason: 'explanatory prose, not code' };
+  }
+
+  const fileName = scriptFileName(input);
+  if (fileName && input.fileContent.length <= MAX_SYNTAX_CHECK_CHARS) {
+    const before = syntaxErrors(input.fileContent, fileName);
+    const after = syntaxErrors(spliceAtCursor(input, suggestion), fileName);
+
+    if (after.length > before.length) {
+      const message = ts.flattenDiagnosticMessageText(after[0].messageText, ' ');
+      return { ok: false, reason: `adds syntax errors (${message})` };
+    }
+  }
+
+  return { ok: true };
+}
+
+/**
+ * Decide whether a streamed chat answer is safe to cache: complete, not cut
+ * off by maxTokens and not an error message
+ */
+export function checkChatResponse(response: string, stream: StreamOutcome): GuardrailVerdict {
+  if (!stream.finished) {
+    return { ok: false, reason: 'stream ended before the model finished' };
+  }
+
+  if (stream.doneReason === 'length') {
+    return { ok: false, reason: 'cut off by the maxTokens limit' };
+  }
+
+  const marker = errorMarker(response);
+  if (marker) {
+    return { ok: false, reason: `contains error text "${marker}"` };
+  }
+
+  return { ok: true };
+}
@@ -0,0 +1,165 @@
+import { db } from './db';
+import { countTokens } from './tokenizer';
+import { decodeEvent } from './stream-events';
+import { aiRateLimiter, quotaDay, type AiRoute, type Requester } from './rate-limit';
+import type { TokenUsage } from './model-providers';
+
+/**
+ * Token accounting for the AI routes. Every answer is recorded in the
+ * TokenUsage collection: generated ones with what they cost, cached ones with
+ * what generating them would have cost, so the usage page can show both
+ * consumption and savings.
+ */
+
+export interface MeasuredUsage extends TokenUsage {
+  // Counted by lib/tokenizer.ts because the model server reported nothing
+  estimated: boolean;
+}
+
+export interface UsageRecord {
+  requester: Requester;
+  playgroundId?: string | null;
+  route: AiRoute;
+  model: string;
+  cached: boolean;
+  usage: MeasuredUsage;
+}
+
+// One document of the TokenUsage collection
+interface TokenUsageRow extends TokenUsage {
+  userId: string | null;
+  playgroundId: string | null;
+  route: AiRoute;
+  model: string;
+  cached: boolean;
+  estimated: boolean;
+  day: string;
+}
+
+// The server's counts when it gave them, a local count of the texts otherwise
+export function measureUsage(prompt: string, completion: string, reported?: TokenUsage): MeasuredUsage {
+  if (reported) return { ...reported, estimated: false };
+  return { promptTokens: countTokens(prompt), completionTokens: countTokens(completion), estimated: true };
+}
+
+// Usage of several generations behind one answer, e.g. completion candidates
+export function sumUsage(usages: MeasuredUsage[]): MeasuredUsage {
+  return usages.reduce(
+    (total, usage) => ({
+      promptTokens: total.promptTokens + usage.promptTokens,
+      completionTokens: total.completionTokens + usage.completionTokens,
+      estimated: total.estimated || usage.estimated,
+    }),
+    { promptTokens: 0, completionTokens: 0, estimated: false }
+  );
+}
+
+/**
+ * Usage of a streamed generation from its SSE frames: the `usage` event when
+ * the stream got that far, otherwise an estimate of the text it carried.
+ * Cached candidates are not counted. Null when nothing was generated.
+ */
+export function streamedUsage(prompt: string, frames: string[]): MeasuredUsage | null {
+  const cachedCandidates = new Set<number | undefined>();
+  let text = '';
+
+  for (const frame of frames) {
+    const event = decodeEvent(frame)?.event;
+    if (event?.type === 'usage') {
+      return { promptTokens: event.promptTokens ?? 0, completionTokens: event.tokens, estimated: event.estimated ?? false };
+    }
+    if (event?.type === 'cache-hit') cachedCandidates.add(event.candidate);
+    if (event?.type === 'delta' && !cachedCandidates.has(event.candidate)) text += event.text;
+  }
+  return text ? measureUsage(prompt, text) : null;
+}
+
+// Ownership lookups are kept this long, so a burst of completions costs one query
+const PLAYGROUND_OWNER_TTL_MS = 60 * 1000;
+const MAX_PLAYGROUND_OWNERS = 1000;
+const playgroundOwners = new Map<string, { id: string | null; expires: number }>();
+
+// Cache hits are written together, at most this often or this many at a time
+const CACHED_FLUSH_INTERVAL_MS = 5 * 1000;
+const CACHED_FLUSH_SIZE = 100;
+let pendingCached: TokenUsageRow[] = [];
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+// The playground named by the client, if it is the requester's own; anything
+// else would charge the usage to somebody else's playground
+async function ownPlaygroundId(requester: Requester, playgroundId?: string | null): Promise<string | null> {
+  if (!playgroundId || !requester.userId) return null;
+
+  const cacheKey = `${requester.userId}:${playgroundId}`;
+  const known = playgroundOwners.get(cacheKey);
+  if (known && known.expires > Date.now()) return known.id;
+
+  const playground = await db.playground.findFirst({
+    where: { id: playgroundId, userId: requester.userId },
+    select: { id: true },
+  });
+  if (playgroundOwners.size >= MAX_PLAYGROUND_OWNERS) playgroundOwners.clear();
+  playgroundOwners.set(cacheKey, { id: playground?.id ?? null, expires: Date.now() + PLAYGROUND_OWNER_TTL_MS });
+  return playground?.id ?? null;
+}
+
+async function flushCached(): Promise<void> {
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+  const rows = pendingCached;
+  pendingCached = [];
+  if (rows.length === 0) return;
+
+  try {
+    await db.tokenUsage.createMany({ data: rows });
+  } catch (error) {
+    console.warn(`⚠️ Failed to store ${rows.length} cached token usage records:`, error);
+  }
+}
+
+/**
+ * Store the tokens of one answer and count generated ones against the
+ * requester's daily quota. Answers that used no tokens are not stored, and
+ * cache hits, one per keystroke in the editor, are written in batches.
+ * Failures are logged, never thrown: accounting must not cost the user their
+ * answer.
+ */
+export async function recordTokenUsage({ requester, playgroundId, route, model, cached, usage }: UsageRecord): Promise<void> {
+  const tokens = usage.promptTokens + usage.completionTokens;
+  if (tokens <= 0) return;
+
+  if (!cached) {
+    await aiRateLimiter.recordTokens(requester, tokens);
+  }
+
+  try {
+    const row: TokenUsageRow = {
+      userId: requester.userId,
+      playgroundId: await ownPlaygroundId(requester, playgroundId),
+      route,
+      model,
+      cached,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      estimated: usage.estimated,
+      day: quotaDay(),
+    };
+
+    if (!cached) {
+      await db.tokenUsage.create({ data: row });
+      return;
+    }
+
+    pendingCached.push(row);
+    if (pendingCached.length >= CACHED_FLUSH_SIZE) {
+      await flushCached();
+    } else if (!flushTimer) {
+      flushTimer = setTimeout(() => void flushCached(), CACHED_FLUSH_INTERVAL_MS);
+      flushTimer.unref?.();
+    }
+  } catch (error) {
+    console.warn('⚠️ Failed to store token usage:', error);
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * Token counts for text whose provider reported none (the mock provider,
+ * OpenAI-compatible servers without usage, answers served from the cache).
+ * Splits text the way BPE tokenizers pre-tokenize it, then charges each piece
+ * by length the way common merges tend to, for a close estimate without
+ * shipping a vocabulary.
+ */
+
+// GPT-style pre-tokenization: contractions, words with their leading space,
+// digit runs, punctuation runs, and whitespace
+const PIECES = /'(?:[sdmt]|ll|ve|re)| ?\p{L}+| ?\p{N}+| ?[^\s\p{L}\p{N}]+|\s+(?!\S)|\s+/gu;
+
+// camelCase identifiers rarely merge across their parts
+const WORD_PARTS = /\p{Lu}?\p{Ll}+|\p{Lu}+(?!\p{Ll})|\p{L}+/gu;
+
+function countPiece(piece: string): number {
+  const text = piece.trimStart();
+  if (!text) return 1;
+
+  if (/^\p{L}/u.test(text)) {
+    return (text.match(WORD_PARTS) ?? [text]).reduce((total, part) => total + Math.ceil(part.length / 6), 0);
+  }
+  // Digits are merged at most three at a time
+  if (/^\p{N}/u.test(text)) return Math.ceil(text.length / 3);
+  // Operator pairs such as `=>`, `===` or `*/` usually are single tokens
+  return Math.ceil(text.length / 2);
+}
+
+export function countTokens(text: string): number {
+  if (!text) return 0;
+  let total = 0;
+  for (const [piece] of text.matchAll(PIECES)) {
+    total += countPiece(piece);
+  }
+  return total;
+}
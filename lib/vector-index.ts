@@ -0,0 +1,679 @@
+import { RESP_TYPES, type RedisClientType } from 'redis';
+import { EMBEDDING_DIMENSION, calculateSimilarity, isUsableEmbedding } from './embedding-service';
+import { knownEmbeddingDimensions } from './embedding-providers';
+
+// Shape of a cache entry as it is stored in a Redis hash
+export interface IndexedEntry {
+  id: string;
+  context: string;
+  embedding: number[];
+  suggestion: string;
+  language: string;
+  framework: string;
+  suggestionType: string;
+  // What produced the entry; `version` is the tag lookups are scoped to
+  model: string;
+  promptVersion: string;
+  embeddingModel: string;
+  embeddingDimension: number;
+  version: string;
+  // Chat only: digest of the history and attachments the answer depends on
+  conversation: string;
+  // Code only: the line above the cursor and the current line up to it, for lexical matching
+  previousLine: string;
+  linePrefix: string;
+  timestamp: number;
+  hitCount: number;
+  // Accept/reject events reported for suggestions served from this entry
+  accepts: number;
+  rejects: number;
+}
+
+// An entry as returned by listings: everything but the embedding, plus its key
+export type ListedEntry = Omit<IndexedEntry, 'embedding'> & { key: string };
+
+export interface IndexPartition {
+  language: string;
+  framework: string;
+  // Cache version tag; searches without one span every version
+  version?: string;
+  // Conversation digest; searches without one ignore conversation history
+  conversation?: string;
+}
+
+export interface VectorMatch {
+  key: string;
+  similarity: number;
+}
+
+export interface FeedbackCounts {
+  accepts: number;
+  rejects: number;
+}
+
+export interface FeedbackVote extends FeedbackCounts {
+  // False when this voter had already given feedback on the entry; the counts are unchanged
+  counted: boolean;
+}
+
+export interface IndexStats {
+  totalEntries: number;
+  entriesByLanguage: Record<string, number>;
+  oldestEntry: number;
+  newestEntry: number;
+}
+
+/**
+ * Vector index over the semantic cache entries. Every implementation stores
+ * entries as Redis hashes under `code_suggestion:{language}:{framework}:{id}`
+ * so switching between them never requires a migration.
+ */
+export interface VectorIndex {
+  readonly kind: 'redisearch' | 'brute-force';
+  upsert(key: string, entry: IndexedEntry, ttlSeconds: number): Promise<void>;
+  search(partition: IndexPartition, embedding: number[], k: number): Promise<VectorMatch[]>;
+  get(key: string): Promise<Omit<IndexedEntry, 'embedding'> | null>;
+  getEmbedding(key: string, dimension: number): Promise<number[] | null>;
+  recordHit(key: string, timestamp: number, ttlSeconds: number): Promise<void>;
+  recordFeedback(key: string, accepted: boolean, voter: string): Promise<FeedbackVote | null>;
+  list(): Promise<ListedEntry[]>;
+  remove(keys: string[]): Promise<void>;
+  count(): Promise<number>;
+  stats(): Promise<IndexStats>;
+}
+
+export const ENTRY_PREFIX = 'code_suggestion:';
+const INDEX_NAME = 'idx:code_suggestion';
+const BOOKKEEPING_PREFIX = 'code_suggestion_idx:';
+const ALL_ENTRIES_KEY = `${BOOKKEEPING_PREFIX}all`;
+const PARTITIONS_KEY = `${BOOKKEEPING_PREFIX}partitions`;
+const SCHEMA_KEY = `${BOOKKEEPING_PREFIX}schema`;
+// Set of who gave feedback on an entry, so each voter counts once
+const VOTERS_PREFIX = `${BOOKKEEPING_PREFIX}voters:`;
+
+// Bump when the RediSearch schema below changes; the index is rebuilt on start
+const INDEX_SCHEMA_VERSION = 4;
+
+// Entries from before dimensions were recorded all came from all-MiniLM-L6-v2
+const LEGACY_EMBEDDING_DIMENSION = 384;
+
+const TEXT_FIELDS = [
+  'id',
+  'context',
+  'suggestion',
+  'language',
+  'framework',
+  'suggestionType',
+  'model',
+  'promptVersion',
+  'embeddingModel',
+  'embeddingDimension',
+  'version',
+  'conversation',
+  'previousLine',
+  'linePrefix',
+  'timestamp',
+  'hitCount',
+  'accepts',
+  'rejects',
+] as const;
+
+/**
+ * Share of reported events that were accepts, smoothed so an entry with no
+ * feedback sits at 0.5 and a single event cannot swing it to 0 or 1
+ */
+export function acceptanceScore({ accepts, rejects }: FeedbackCounts): number {
+  return (accepts + 1) / (accepts + rejects + 2);
+}
+
+export function entryKey(partition: IndexPartition, id: string): string {
+  return `${ENTRY_PREFIX}${partition.language}:${partition.framework}:${id}`;
+}
+
+const votersKey = (key: string) => `${VOTERS_PREFIX}${key}`;
+
+function partitionKey(partition: IndexPartition): string {
+  return `${BOOKKEEPING_PREFIX}partition:${partition.language}:${partition.framework}`;
+}
+
+/**
+ * Hash field holding a vector of this size. Each dimension gets its own field
+ * so entries from several embedding models can be indexed side by side during
+ * a migration; 384-dim vectors keep the original field name so entries
+ * written before other models existed stay indexed.
+ */
+function vectorField(dimension: number): string {
+  return dimension === LEGACY_EMBEDDING_DIMENSION ? 'embedding' : `embedding_${dimension}`;
+}
+
+function toVectorBlob(embedding: number[]): Buffer {
+  return Buffer.from(new Float32Array(embedding).buffer);
+}
+
+function fromVectorBlob(blob: Buffer): number[] {
+  // Copy into a fresh buffer so the Float32Array view is always 4-byte aligned
+  return Array.from(new Float32Array(Uint8Array.from(blob).buffer));
+}
+
+function toHash(entry: IndexedEntry): Record<string, string | Buffer> {
+  return {
+    id: entry.id,
+    context: entry.context,
+    suggestion: entry.suggestion,
+    language: entry.language,
+    framework: entry.framework,
+    suggestionType: entry.suggestionType,
+    model: entry.model,
+    promptVersion: entry.promptVersion,
+    embeddingModel: entry.embeddingModel,
+    embeddingDimension: entry.embeddingDimension.toString(),
+    version: entry.version,
+    conversation: entry.conversation,
+    previousLine: entry.previousLine,
+    linePrefix: entry.linePrefix,
+    timestamp: entry.timestamp.toString(),
+    hitCount: entry.hitCount.toString(),
+    accepts: entry.accepts.toString(),
+    rejects: entry.rejects.toString(),
+    [vectorField(entry.embedding.length)]: toVectorBlob(entry.embedding),
+  };
+}
+
+function fromHashFields(values: (string | null)[]): Omit<IndexedEntry, 'embedding'> | null {
+  const [
+    id,
+    context,
+    suggestion,
+    language,
+    framework,
+    suggestionType,
+    model,
+    promptVersion,
+    embeddingModel,
+    embeddingDimension,
+    version,
+    conversation,
+    previousLine,
+    linePrefix,
+    timestamp,
+    hitCount,
+    accepts,
+    rejects,
+  ] = values;
+  if (id === null || suggestion === null) return null;
+
+  return {
+    id,
+    context: context ?? '',
+    suggestion,
+    language: language ?? '',
+    framework: framework ?? '',
+    suggestionType: suggestionType ?? '',
+    model: model ?? '',
+    promptVersion: promptVersion ?? '',
+    embeddingModel: embeddingModel ?? '',
+    embeddingDimension: Number(embeddingDimension) || LEGACY_EMBEDDING_DIMENSION,
+    version: version ?? '',
+    conversation: conversation ?? '',
+    previousLine: previousLine ?? '',
+    linePrefix: linePrefix ?? '',
+    timestamp: Number(timestamp) || 0,
+    hitCount: Number(hitCount) || 0,
+    accepts: Number(accepts) || 0,
+    rejects: Number(rejects) || 0,
+  };
+}
+
+async function readHashEmbedding(
+  redis: RedisClientType,
+  key: string,
+  dimension: number
+): Promise<number[] | null> {
+  const blob = (await redis
+    .withTypeMapping({ [RESP_TYPES.BLOB_STRING]: Buffer })
+    .hGet(key, vectorField(dimension))) as Buffer | null;
+  return blob ? fromVectorBlob(blob) : null;
+}
+
+async function recordHashHit(
+  redis: RedisClientType,
+  key: string,
+  timestamp: number,
+  ttlSeconds: number
+): Promise<void> {
+  // Never recreate an entry that expired between lookup and hit
+  if (!(await redis.exists(key))) return;
+
+  await redis
+    .multi()
+    .hIncrBy(key, 'hitCount', 1)
+    .hSet(key, 'timestamp', timestamp.toString())
+    .expire(key, ttlSeconds)
+    .exec();
+}
+
+// Counts ARGV[2] (accepts or rejects) on entry KEYS[1] unless voter ARGV[1] is
+// already in KEYS[2]. The voter set lives as long as the entry. Returns nil
+// for a missing entry, otherwise { accepts, rejects, counted }.
+const FEEDBACK_SCRIPT = `
+if redis.call('EXISTS', KEYS[1]) == 0 then
+  return nil
+end
+local counted = redis.call('SADD', KEYS[2], ARGV[1])
+if counted == 1 then
+  redis.call('HINCRBY', KEYS[1], ARGV[2], 1)
+end
+local ttl = redis.call('PTTL', KEYS[1])
+if ttl > 0 then
+  redis.call('PEXPIRE', KEYS[2], ttl)
+end
+local counts = redis.call('HMGET', KEYS[1], 'accepts', 'rejects')
+return { tonumber(counts[1]) or 0, tonumber(counts[2]) or 0, counted }
+`;
+
+async function recordHashFeedback(
+  redis: RedisClientType,
+  key: string,
+  accepted: boolean,
+  voter: string
+): Promise<FeedbackVote | null> {
+  // Feedback for an entry that has since expired or been evicted is dropped
+  const result = (await redis.eval(FEEDBACK_SCRIPT, {
+    keys: [key, votersKey(key)],
+    arguments: [voter, accepted ? 'accepts' : 'rejects'],
+  })) as [number, number, number] | null;
+  if (!result) return null;
+
+  const [accepts, rejects, counted] = result;
+  return { accepts: Number(accepts), rejects: Number(rejects), counted: Number(counted) === 1 };
+}
+
+// Escape a value for use inside a RediSearch TAG query, e.g. "Next.js" -> "Next\.js"
+function escapeTag(value: string): string {
+  return value.replace(/[^a-zA-Z0-9_]/g, '\\$&');
+}
+
+/**
+ * RediSearch-backed index (Redis Stack). Uses an HNSW vector field so a lookup
+ * is a single FT.SEARCH KNN query scoped to the language/framework partition.
+ */
+export class RediSearchVectorIndex implements VectorIndex {
+  readonly kind = 'redisearch';
+
+  constructor(private redis: RedisClientType) {}
+
+  /**
+   * Create the index, or rebuild it when the schema or embedding dimension
+   * changed. Dropping the index keeps the entry hashes, which are re-indexed.
+   */
+  async ensureIndex(): Promise<void> {
+    const dimensions = [...new Set([...knownEmbeddingDimensions(), EMBEDDING_DIMENSION])].sort((a, b) => a - b);
+    const schema = `${INDEX_SCHEMA_VERSION}:${dimensions.join(',')}`;
+
+    let exists = true;
+    try {
+      await this.redis.ft.info(INDEX_NAME);
+    } catch {
+      exists = false;
+    }
+
+    if (exists) {
+      if ((await this.redis.get(SCHEMA_KEY)) === schema) return;
+
+      console.log('🧭 Vector index schema changed, rebuilding...');
+      await this.redis.ft.dropIndex(INDEX_NAME);
+    } else {
+      console.log('🧭 Creating RediSearch vector index...');
+    }
+
+    try {
+      await this.createIndex(dimensions);
+    } catch (error) {
+      // Another instance created it first, with the same schema since it runs the same code
+      if (!(error instanceof Error && /already exists/i.test(error.message))) throw error;
+    }
+    await this.redis.set(SCHEMA_KEY, schema);
+  }
+
+  private async createIndex(dimensions: number[]): Promise<void> {
+    await this.redis.ft.create(
+      INDEX_NAME,
+      {
+        language: { type: 'TAG' },
+        framework: { type: 'TAG' },
+        version: { type: 'TAG' },
+        conversation: { type: 'TAG' },
+        timestamp: { type: 'NUMERIC', SORTABLE: true },
+        hitCount: { type: 'NUMERIC', SORTABLE: true },
+        ...Object.fromEntries(
+          dimensions.map((dimension) => [
+            vectorField(dimension),
+            {
+              type: 'VECTOR',
+              ALGORITHM: 'HNSW',
+              TYPE: 'FLOAT32',
+              DIM: dimension,
+              DISTANCE_METRIC: 'COSINE',
+            } as const,
+          ])
+        ),
+      },
+      { ON: 'HASH', PREFIX: ENTRY_PREFIX }
+    );
+  }
+
+  async upsert(key: string, entry: IndexedEntry, ttlSeconds: number): Promise<void> {
+    await this.redis
+      .multi()
+      .hSet(key, toHash(entry))
+      .expire(key, ttlSeconds)
+      .exec();
+  }
+
+  async search(partition: IndexPartition, embedding: number[], k: number): Promise<VectorMatch[]> {
+    const version = partition.version ? ` @version:{${escapeTag(partition.version)}}` : '';
+    const conversation = partition.conversation
+      ? ` @conversation:{${escapeTag(partition.conversation)}}`
+      : '';
+    const filter = `(@language:{${escapeTag(partition.language)}} @framework:{${escapeTag(partition.framework)}}${version}${conversation})`;
+    const result = await this.redis.ft.search(
+      INDEX_NAME,
+      `${filter}=>[KNN $K @${vectorField(embedding.length)} $BLOB AS distance]`,
+      {
+        PARAMS: { K: k, BLOB: toVectorBlob(embedding) },
+        SORTBY: 'distance',
+        RETURN: ['distance'],
+        LIMIT: { from: 0, size: k },
+        DIALECT: 2,
+      }
+    );
+
+    // COSINE distance is 1 - cosine similarity; zero vectors cached before
+    // embeddings were validated come back without a finite distance
+    return result.documents
+      .map((doc) => ({
+        key: doc.id,
+        similarity: 1 - Number(doc.value.distance),
+      }))
+      .filter((match) => Number.isFinite(match.similarity));
+  }
+
+  async get(key: string): Promise<Omit<IndexedEntry, 'embedding'> | null> {
+    return fromHashFields(await this.redis.hmGet(key, [...TEXT_FIELDS]));
+  }
+
+  async getEmbedding(key: string, dimension: number): Promise<number[] | null> {
+    return readHashEmbedding(this.redis, key, dimension);
+  }
+
+  async recordHit(key: string, timestamp: number, ttlSeconds: number): Promise<void> {
+    await recordHashHit(this.redis, key, timestamp, ttlSeconds);
+  }
+
+  async recordFeedback(key: string, accepted: boolean, voter: string): Promise<FeedbackVote | null> {
+    return recordHashFeedback(this.redis, key, accepted, voter);
+  }
+
+  async list(): Promise<ListedEntry[]> {
+    const result = await this.redis.ft.aggregate(INDEX_NAME, '*', {
+      LOAD: ['@__key', ...TEXT_FIELDS.map((field) => `@${field}` as const)],
+    });
+
+    const entries: ListedEntry[] = [];
+    for (const row of result.results) {
+      const entry = fromHashFields(TEXT_FIELDS.map((field) => (row[field] == null ? null : String(row[field]))));
+      if (entry) entries.push({ ...entry, key: String(row.__key) });
+    }
+    return entries;
+  }
+
+  async remove(keys: string[]): Promise<void> {
+    if (keys.length > 0) await this.redis.del([...keys, ...keys.map(votersKey)]);
+  }
+
+  async count(): Promise<number> {
+    const result = await this.redis.ft.search(INDEX_NAME, '*', { LIMIT: { from: 0, size: 0 } });
+    return result.total;
+  }
+
+  async stats(): Promise<IndexStats> {
+    const [byLanguage, range] = await Promise.all([
+      this.redis.ft.aggregate(INDEX_NAME, '*', {
+        STEPS: [
+          {
+            type: 'GROUPBY',
+            properties: '@language',
+            REDUCE: { type: 'COUNT', AS: 'count' },
+          },
+        ],
+      }),
+      this.redis.ft.aggregate(INDEX_NAME, '*', {
+        STEPS: [
+          {
+            type: 'GROUPBY',
+            REDUCE: [
+              { type: 'COUNT', AS: 'total' },
+              { type: 'MIN', property: '@timestamp', AS: 'oldest' },
+              { type: 'MAX', property: '@timestamp', AS: 'newest' },
+            ],
+          },
+        ],
+      }),
+    ]);
+
+    const entriesByLanguage: Record<string, number> = {};
+    for (const row of byLanguage.results) {
+      entriesByLanguage[String(row.language)] = Number(row.count);
+    }
+
+    const totals = range.results[0];
+    return {
+      totalEntries: totals ? Number(totals.total) : 0,
+      entriesByLanguage,
+      oldestEntry: totals ? Number(totals.oldest) : 0,
+      newestEntry: totals ? Number(totals.newest) : 0,
+    };
+  }
+}
+
+// Returns [key1, embedding1, key2, embedding2, ...] for a partition in one
+// round trip, pruning members whose hash has already expired. ARGV[1] and
+// ARGV[2] limit the result to one cache version and conversation unless empty;
+// ARGV[3] is the vector field for the query's dimension.
+const SCAN_PARTITION_SCRIPT = `
+local members = redis.call('ZRANGE', KEYS[1], 0, -1)
+local out = {}
+for _, key in ipairs(members) do
+  local fields = redis.call('HMGET', key, 'id', ARGV[3], 'version', 'conversation')
+  if fields[1] then
+    if fields[2] and (ARGV[1] == '' or fields[3] == ARGV[1]) and (ARGV[2] == '' or fields[4] == ARGV[2]) then
+      table.insert(out, key)
+      table.insert(out, fields[2])
+    end
+  else
+    redis.call('ZREM', KEYS[1], key)
+    redis.call('ZREM', KEYS[2], key)
+  end
+end
+return out
+`;
+
+// Drops the members of KEYS[1] (all entries) whose hash has expired from it and
+// from every partition in KEYS[2..]. Returns how many were dropped.
+const PRUNE_EXPIRED_SCRIPT = `
+local removed = 0
+for _, key in ipairs(redis.call('ZRANGE', KEYS[1], 0, -1)) do
+  if redis.call('EXISTS', key) == 0 then
+    for i = 1, #KEYS do
+      redis.call('ZREM', KEYS[i], key)
+    end
+    removed = removed + 1
+  end
+end
+return removed
+`;
+
+/**
+ * Fallback for plain Redis without the search module. Keeps per-partition
+ * sorted sets of entry keys so lookups never need KEYS, and scores the
+ * partition's embeddings in-process.
+ */
+export class BruteForceVectorIndex implements VectorIndex {
+  readonly kind = 'brute-force';
+
+  constructor(private redis: RedisClientType) {}
+
+  async upsert(key: string, entry: IndexedEntry, ttlSeconds: number): Promise<void> {
+    const partition = partitionKey(entry);
+    await this.redis
+      .multi()
+      .hSet(key, toHash(entry))
+      .expire(key, ttlSeconds)
+      .zAdd(partition, { score: entry.timestamp, value: key })
+      .zAdd(ALL_ENTRIES_KEY, { score: entry.timestamp, value: key })
+      .hIncrBy(PARTITIONS_KEY, partition, 0)
+      .exec();
+  }
+
+  async search(partition: IndexPartition, embedding: number[], k: number): Promise<VectorMatch[]> {
+    const reply = (await this.redis
+      .withTypeMapping({ [RESP_TYPES.BLOB_STRING]: Buffer })
+      .eval(SCAN_PARTITION_SCRIPT, {
+        keys: [partitionKey(partition), ALL_ENTRIES_KEY],
+        arguments: [partition.version ?? '', partition.conversation ?? '', vectorField(embedding.length)],
+      })) as Buffer[];
+
+    const matches: VectorMatch[] = [];
+    for (let i = 0; i < reply.length; i += 2) {
+      const stored = fromVectorBlob(reply[i + 1]);
+      if (!isUsableEmbedding(stored, embedding.length)) continue;
+
+      matches.push({
+        key: reply[i].toString(),
+        similarity: calculateSimilarity(embedding, stored),
+      });
+    }
+
+    return matches.sort((a, b) => b.similarity - a.similarity).slice(0, k);
+  }
+
+  async get(key: string): Promise<Omit<IndexedEntry, 'embedding'> | null> {
+    return fromHashFields(await this.redis.hmGet(key, [...TEXT_FIELDS]));
+  }
+
+  async getEmbedding(key: string, dimension: number): Promise<number[] | null> {
+    return readHashEmbedding(this.redis, key, dimension);
+  }
+
+  async recordHit(key: string, timestamp: number, ttlSeconds: number): Promise<void> {
+    await recordHashHit(this.redis, key, timestamp, ttlSeconds);
+  }
+
+  async recordFeedback(key: string, accepted: boolean, voter: string): Promise<FeedbackVote | null> {
+    return recordHashFeedback(this.redis, key, accepted, voter);
+  }
+
+  async list(): Promise<ListedEntry[]> {
+    await this.pruneExpired();
+    const keys = await this.redis.zRange(ALL_ENTRIES_KEY, 0, -1);
+    const tx = this.redis.multi();
+    for (const key of keys) {
+      tx.hmGet(key, [...TEXT_FIELDS]);
+    }
+    const rows = (await tx.exec()) as unknown as (string | null)[][];
+
+    const entries: ListedEntry[] = [];
+    keys.forEach((key, i) => {
+      const entry = fromHashFields(rows[i] ?? []);
+      if (entry) entries.push({ ...entry, key });
+    });
+    return entries;
+  }
+
+  async remove(keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+
+    const partitions = await this.redis.hKeys(PARTITIONS_KEY);
+    const tx = this.redis.multi().del([...keys, ...keys.map(votersKey)]).zRem(ALL_ENTRIES_KEY, keys);
+    for (const partition of partitions) {
+      tx.zRem(partition, keys);
+    }
+    await tx.exec();
+  }
+
+  async count(): Promise<number> {
+    await this.pruneExpired();
+    return this.redis.zCard(ALL_ENTRIES_KEY);
+  }
+
+  async stats(): Promise<IndexStats> {
+    const partitions = await this.pruneExpired();
+    const tx = this.redis
+      .multi()
+      .zCard(ALL_ENTRIES_KEY)
+      .zRangeWithScores(ALL_ENTRIES_KEY, 0, 0)
+      .zRangeWithScores(ALL_ENTRIES_KEY, -1, -1);
+    for (const partition of partitions) {
+      tx.zCard(partition);
+    }
+    const [total, oldest, newest, ...counts] = (await tx.exec()) as unknown as [
+      number,
+      { score: number }[],
+      { score: number }[],
+      ...number[]
+    ];
+
+    const entriesByLanguage: Record<string, number> = {};
+    partitions.forEach((partition, i) => {
+      const language = partition.slice(`${BOOKKEEPING_PREFIX}partition:`.length).split(':')[0];
+      if (counts[i] > 0) {
+        entriesByLanguage[language] = (entriesByLanguage[language] || 0) + counts[i];
+      }
+    });
+
+    return {
+      totalEntries: total,
+      entriesByLanguage,
+      oldestEntry: oldest[0]?.score ?? 0,
+      newestEntry: newest[0]?.score ?? 0,
+    };
+  }
+
+  /**
+   * Expired hashes stay in the sorted sets until a search of their partition
+   * comes across them; drop them all before counting. Returns the partitions.
+   */
+  private async pruneExpired(): Promise<string[]> {
+    const partitions = await this.redis.hKeys(PARTITIONS_KEY);
+    await this.redis.eval(PRUNE_EXPIRED_SCRIPT, { keys: [ALL_ENTRIES_KEY, ...partitions] });
+    return partitions;
+  }
+}
+
+// Resolved once per Redis client; VECTOR_INDEX=brute-force forces the fallback.
+// Concurrent first calls share one resolution, so they all pick the same index.
+let resolved: { redis: RedisClientType; index: Promise<VectorIndex> } | null = null;
+
+export function getVectorIndex(redis: RedisClientType): Promise<VectorIndex> {
+  if (resolved?.redis !== redis) {
+    resolved = { redis, index: resolveVectorIndex(redis) };
+  }
+  return resolved.index;
+}
+
+async function resolveVectorIndex(redis: RedisClientType): Promise<VectorIndex> {
+  let index: VectorIndex = new BruteForceVectorIndex(redis);
+
+  if (process.env.VECTOR_INDEX !== 'brute-force') {
+    try {
+      const searchIndex = new RediSearchVectorIndex(redis);
+      await searchIndex.ensureIndex();
+      console.log('✅ Using RediSearch HNSW vector index');
+      index = searchIndex;
+    } catch (error) {
+      console.warn('⚠️ RediSearch unavailable, falling back to brute-force index:', error);
+    }
+  }
+
+  return index;
+}
@@ -0,0 +1,82 @@
+#!/usr/bin/env node
+
+// Export the semantic cache to a portable JSON file, or import one, e.g. to
+// seed a fresh deployment or restore after a Redis flush:
+//   npm run cache-snapshot -- --export cache-snapshot.json [--language TypeScript]
+//   npm run cache-snapshot -- --import cache-snapshot.json
+const fs = require('fs');
+
+const APP_URL = process.env.APP_URL || 'http://localhost:3000';
+
+// The cache-admin routes want the server's CACHE_ADMIN_TOKEN as a bearer token
+const AUTH_HEADERS = process.env.CACHE_ADMIN_TOKEN
+  ? { Authorization: `Bearer ${process.env.CACHE_ADMIN_TOKEN}` }
+  : {};
+
+function argValue(args, name) {
+  const index = args.indexOf(name);
+  return index === -1 ? undefined : args[index + 1];
+}
+
+async function exportSnapshot(file, args) {
+  const query = new URLSearchParams();
+  for (const field of ['language', 'framework', 'suggestionType']) {
+    const value = argValue(args, `--${field}`);
+    if (value) query.set(field, value);
+  }
+
+  console.log(`📦 Exporting semantic cache from ${APP_URL}...`);
+  const response = await fetch(`${APP_URL}/api/cache-admin/snapshot?${query}`, { headers: AUTH_HEADERS });
+  const snapshot = await response.json();
+
+  if (!response.ok) {
+    throw new Error(snapshot.message || snapshot.error);
+  }
+
+  fs.writeFileSync(file, JSON.stringify(snapshot));
+  console.log(`✅ Wrote ${snapshot.entries.length} entries to ${file}`);
+}
+
+async function importSnapshot(file) {
+  console.log(`📦 Importing ${file} into ${APP_URL}...`);
+  const response = await fetch(`${APP_URL}/api/cache-admin/snapshot`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...AUTH_HEADERS },
+    body: fs.readFileSync(file, 'utf8'),
+  });
+  const report = await response.json();
+
+  if (!report.success) {
+    throw new Error(report.message || report.error);
+  }
+
+  console.log(
+    `✅ Imported ${report.imported} entries (${report.existing} already cached, ${report.invalid} invalid)`
+  );
+  if (report.outdated > 0) {
+    console.log(`💡 ${report.outdated} entries are from another model or prompt, run npm run migrate-cache`);
+  }
+}
+
+async function cacheSnapshot() {
+  const args = process.argv.slice(2);
+  const importFile = argValue(args, '--import');
+
+  try {
+    if (importFile) {
+      await importSnapshot(importFile);
+    } else if (args.includes('--export')) {
+      const file = argValue(args, '--export');
+      await exportSnapshot(file && !file.startsWith('--') ? file : 'cache-snapshot.json', args);
+    } else {
+      console.log('Usage: npm run cache-snapshot -- --export [file] | --import <file>');
+      process.exit(1);
+    }
+  } catch (error) {
+    console.error('❌ Cache snapshot failed:', error.message);
+    console.log('💡 Make sure the app is running (npm run dev) or set APP_URL');
+    process.exit(1);
+  }
+}
+
+cacheSnapshot();
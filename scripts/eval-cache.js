@@ -0,0 +1,72 @@
+#!/usr/bin/env node
+
+// Replay a recorded request log against a fresh in-memory semantic cache and
+// report hit rate, precision and lookup latency for a cache policy. Record a
+// log by running the app with CACHE_REQUEST_LOG=logs/cache-requests.jsonl.
+//   npm run eval-cache                                   # CACHE_REQUEST_LOG, current policy
+//   npm run eval-cache -- --log cache-requests-old.jsonl --policy cache-policy.json
+//   npm run eval-cache -- --mock-embeddings                # skip the embedding model
+// --log names a file in the directory of CACHE_REQUEST_LOG, the server reads nothing else.
+const fs = require('fs');
+const path = require('path');
+
+const APP_URL = process.env.APP_URL || 'http://localhost:3000';
+
+// The cache-admin routes want the server's CACHE_ADMIN_TOKEN as a bearer token
+const AUTH_HEADERS = process.env.CACHE_ADMIN_TOKEN
+  ? { Authorization: `Bearer ${process.env.CACHE_ADMIN_TOKEN}` }
+  : {};
+
+function argValue(args, name) {
+  const index = args.indexOf(name);
+  return index === -1 ? undefined : args[index + 1];
+}
+
+const percent = (value) => (value === null ? 'n/a' : `${(value * 100).toFixed(1)}%`);
+
+async function evalCache() {
+  const args = process.argv.slice(2);
+  const log = argValue(args, '--log');
+  const policyFile = argValue(args, '--policy');
+
+  const body = {};
+  if (log) body.log = path.basename(log);
+  if (policyFile) body.policy = JSON.parse(fs.readFileSync(policyFile, 'utf8'));
+  if (args.includes('--mock-embeddings')) body.mockEmbeddings = true;
+
+  console.log(`🧪 Evaluating semantic cache via ${APP_URL}...`);
+
+  try {
+    const response = await fetch(`${APP_URL}/api/cache-admin/evaluate`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...AUTH_HEADERS },
+      body: JSON.stringify(body),
+    });
+    const report = await response.json();
+
+    if (!report.success) {
+      throw new Error(report.message || report.error);
+    }
+
+    console.log(`📄 ${report.log} (${report.requests} requests, embeddings: ${report.embeddingModel})`);
+    if (report.mockEmbeddings) {
+      console.log('⚠️ Mock embeddings: semantic hits and precision are noise, only exact hits count');
+    }
+    console.table({
+      'hit rate': percent(report.hitRate),
+      hits: `${report.hits} (l1 ${report.hitsByTier.l1}, exact ${report.hitsByTier.exact}, semantic ${report.hitsByTier.semantic})`,
+      precision: `${percent(report.precision)} of ${report.verifiedHits} verified hits`,
+      'not cached': `${report.rejected} misses failed the guardrails`,
+      'lookup p50': `${report.lookupLatencyMs.p50.toFixed(1)}ms`,
+      'lookup p90': `${report.lookupLatencyMs.p90.toFixed(1)}ms`,
+      'lookup p99': `${report.lookupLatencyMs.p99.toFixed(1)}ms`,
+      'lookup max': `${report.lookupLatencyMs.max.toFixed(1)}ms`,
+    });
+  } catch (error) {
+    console.error('❌ Cache evaluation failed:', error.message);
+    console.log('💡 Make sure the app is running (npm run dev) or set APP_URL');
+    process.exit(1);
+  }
+}
+
+evalCache();
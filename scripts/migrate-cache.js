@@ -0,0 +1,57 @@
+#!/usr/bin/env node
+
+// Re-embed or drop semantic cache entries from outdated cache versions.
+// Runs through the app so it uses the same embedding model and store:
+//   npm run migrate-cache             # report partitions only
+//   npm run migrate-cache -- --reembed
+//   npm run migrate-cache -- --drop
+const APP_URL = process.env.APP_URL || 'http://localhost:3000';
+
+// The cache-admin routes want the server's CACHE_ADMIN_TOKEN as a bearer token
+const AUTH_HEADERS = process.env.CACHE_ADMIN_TOKEN
+  ? { Authorization: `Bearer ${process.env.CACHE_ADMIN_TOKEN}` }
+  : {};
+
+async function migrateCache() {
+  const args = process.argv.slice(2);
+  const mode = args.includes('--drop') ? 'drop' : args.includes('--reembed') ? 'reembed' : 'plan';
+
+  console.log(`🧭 Migrating semantic cache (${mode}) via ${APP_URL}...`);
+
+  try {
+    const response = await fetch(`${APP_URL}/api/cache-admin/migrate`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...AUTH_HEADERS },
+      body: JSON.stringify({ mode }),
+    });
+    const report = await response.json();
+
+    if (!report.success) {
+      throw new Error(report.message || report.error);
+    }
+
+    console.table(
+      report.partitions.map((p) => ({
+        version: p.version,
+        model: p.model,
+        prompt: p.promptVersion,
+        embedding: p.embeddingModel,
+        dimension: p.embeddingDimension,
+        entries: p.entries,
+        status: p.status,
+      }))
+    );
+
+    if (mode === 'plan') {
+      console.log('ℹ️ Nothing changed. Pass --reembed or --drop to migrate.');
+    } else {
+      console.log(`✅ Re-embedded ${report.reembedded}, dropped ${report.dropped} entries`);
+    }
+  } catch (error) {
+    console.error('❌ Cache migration failed:', error.message);
+    console.log('💡 Make sure the app is running (npm run dev) or set APP_URL');
+    process.exit(1);
+  }
+}
+
+migrateCache();
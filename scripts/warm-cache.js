@@ -0,0 +1,174 @@
+#!/usr/bin/env node
+
+// Pre-generate completions for the spots in the instantdb-starters templates
+// where users most often ask for one, so a fresh deployment or a flushed Redis
+// starts with useful cache entries. Every sample goes through the streaming
+// completion route, so entries get the same context, prompt and version as
+// real requests; samples that are already cached cost nothing.
+//   npm run warm-cache                      # every template
+//   npm run warm-cache -- --template vite-react --limit 20
+//   npm run warm-cache -- --dry-run         # list the samples only
+const fs = require('fs');
+const path = require('path');
+
+const APP_URL = process.env.APP_URL || 'http://localhost:3000';
+const STARTERS_DIR = path.join(__dirname, '..', 'instantdb-starters');
+
+const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.vue'];
+const SKIP_DIRS = ['node_modules', 'dist', 'build', '.next', 'public'];
+const SKIP_FILE = /(\.d\.ts|\.spec\.[jt]s|\.config\.[jt]s)$/;
+const MAX_FILE_BYTES = 20 * 1024;
+const MAX_SAMPLES_PER_FILE = 8;
+
+// Statement heads users commonly start typing in the starters; the cursor
+// goes right after the head with the rest of the line not yet written
+const STATEMENT_HEADS = [
+  /^\s*(app|router)\.(get|post|put|patch|delete|use|listen)\(/,
+  /^\s*const \[\w+, set\w+\] = useState\(/,
+  /^\s*use(Effect|Memo|Callback)\(/,
+  /^\s*(export )?(default )?(async )?function \w+\(/,
+  /^\s*const \w+ = (async )?\(/,
+];
+
+// Lines after which the user typically opens a new line inside the block
+const BLOCK_OPENER = /(\{|\(|\[|=>)\s*$/;
+
+function argValue(args, name) {
+  const index = args.indexOf(name);
+  return index === -1 ? undefined : args[index + 1];
+}
+
+function* sourceFiles(dir) {
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (!SKIP_DIRS.includes(entry.name)) yield* sourceFiles(full);
+    } else if (
+      SOURCE_EXTENSIONS.includes(path.extname(entry.name)) &&
+      !SKIP_FILE.test(entry.name) &&
+      fs.statSync(full).size <= MAX_FILE_BYTES
+    ) {
+      yield full;
+    }
+  }
+}
+
+// Editor states a user of the template would plausibly request a completion in
+function samplesFor(file) {
+  const lines = fs.readFileSync(file, 'utf8').split('\n');
+  const samples = [];
+
+  lines.forEach((line, i) => {
+    const head = STATEMENT_HEADS.map((pattern) => line.match(pattern)).find(Boolean);
+    if (head) {
+      const typed = head[0];
+      samples.push({
+        fileContent: [...lines.slice(0, i), typed, ...lines.slice(i + 1)].join('\n'),
+        cursorLine: i,
+        cursorColumn: typed.length,
+        trigger: typed.trim(),
+      });
+    }
+
+    if (BLOCK_OPENER.test(line) && i + 1 < lines.length) {
+      // A fresh line indented like the block's first line
+      const indent = lines[i + 1].match(/^\s*/)[0];
+      samples.push({
+        fileContent: [...lines.slice(0, i + 1), indent, ...lines.slice(i + 1)].join('\n'),
+        cursorLine: i + 1,
+        cursorColumn: indent.length,
+        trigger: `${line.trim()} ⏎`,
+      });
+    }
+  });
+
+  return samples.slice(0, MAX_SAMPLES_PER_FILE).map((sample) => ({
+    ...sample,
+    suggestionType: 'completion',
+    fileName: path.basename(file),
+  }));
+}
+
+// Read the SSE response to the end; the last frame says whether it was cached
+async function requestCompletion(sample) {
+  const response = await fetch(`${APP_URL}/api/code-suggestion/stream`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(sample),
+  });
+
+  if (!response.ok) {
+    throw new Error(`HTTP error! status: ${response.status}`);
+  }
+
+  let final = null;
+  for (const line of (await response.text()).split('\n')) {
+    if (!line.startsWith('data: ')) continue;
+    const frame = JSON.parse(line.slice(6));
+    if (frame.done) final = frame;
+  }
+  return final;
+}
+
+async function warmCache() {
+  const args = process.argv.slice(2);
+  const template = argValue(args, '--template');
+  const limit = Number(argValue(args, '--limit')) || Infinity;
+  const dryRun = args.includes('--dry-run');
+
+  const templates = fs
+    .readdirSync(STARTERS_DIR, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory() && (!template || entry.name === template))
+    .map((entry) => entry.name);
+
+  if (templates.length === 0) {
+    console.error(`❌ No template named ${template} in ${STARTERS_DIR}`);
+    process.exit(1);
+  }
+
+  const samples = [];
+  for (const name of templates) {
+    for (const file of sourceFiles(path.join(STARTERS_DIR, name))) {
+      for (const sample of samplesFor(file)) {
+        samples.push({ ...sample, source: `${path.relative(STARTERS_DIR, file)}:${sample.cursorLine + 1}` });
+      }
+    }
+  }
+  const selected = samples.slice(0, limit);
+
+  console.log(`🔥 Warming semantic cache with ${selected.length} samples from ${templates.join(', ')} via ${APP_URL}...`);
+
+  const totals = { generated: 0, cached: 0, failed: 0 };
+  for (const { source, trigger, ...sample } of selected) {
+    if (dryRun) {
+      console.log(`  ${source}  ${trigger}`);
+      continue;
+    }
+
+    try {
+      const result = await requestCompletion(sample);
+      if (result?.cached) {
+        totals.cached++;
+      } else if (result?.cacheKey) {
+        totals.generated++;
+      } else {
+        // Empty completion or not cacheable (e.g. embeddings unavailable)
+        totals.failed++;
+      }
+      console.log(`  ${result?.cached ? '⚡' : result?.cacheKey ? '💾' : '⚠️'} ${source}`);
+    } catch (error) {
+      totals.failed++;
+      console.error(`  ❌ ${source}: ${error.message}`);
+      if (error.cause?.code === 'ECONNREFUSED') {
+        console.log('💡 Make sure the app is running (npm run dev) or set APP_URL');
+        process.exit(1);
+      }
+    }
+  }
+
+  if (!dryRun) {
+    console.log(`✅ ${totals.generated} generated, ${totals.cached} already cached, ${totals.failed} not cached`);
+  }
+}
+
+warmCache();